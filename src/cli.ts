@@ -12,18 +12,42 @@ import { Command } from "commander";
 import { EnvHttpProxyAgent, setGlobalDispatcher } from "undici";
 import { AIAnalyzer } from "@/core/ai-analyzer";
 import {
+  ConfigManager,
   getConfigManager,
   interactiveConfig,
   selectFrameExtractionStrategy,
+  selectProvider,
 } from "@/core/config";
-import type { CommandOptions, FrameExtractionStrategy } from "@/types";
+import type {
+  CommandOptions,
+  FallbackModel,
+  FilenameCase,
+  FrameExtractionStrategy,
+  FrameSamplingConfig,
+  ModelPricing,
+  PromptContextField,
+  PromptLanguage,
+  PromptProfile,
+  VisionProviderName,
+} from "@/types";
 
 interface ExtendedCommandOptions extends CommandOptions {
   frameStrategy?: FrameExtractionStrategy | boolean;
 }
 
+/** config profile add 选项 */
+interface ProfileCommandOptions {
+  customPrompt?: string;
+  filenameLength?: number;
+  language?: string;
+  template?: string;
+}
+
 import { SmartRenamer } from "@/core/renamer";
+import { getResultCache } from "@/core/result-cache";
+import { RunEstimator } from "@/core/run-estimator";
 import { VideoProcessor } from "@/core/video-processor";
+import { FileContext } from "@/utils/file-context";
 import { FileUtils } from "@/utils/file-utils";
 import { progressLogger } from "@/utils/progress-logger";
 import { getSignalHandler, SignalHandler } from "@/utils/signal-handler";
@@ -76,14 +100,39 @@ class FrameSenseCLI {
       .name("frame-sense")
       .description(packageJson.description)
       .version(packageJson.version)
+      // 主命令与 config 子命令有同名选项，子命令之后的选项交给子命令解析
+      .enablePositionalOptions()
       .argument("[file]", "要处理的文件或目录路径")
       .option("-t, --test", "测试 AI API 连接")
+      .option("--models", "列出当前提供商可用的模型")
       .option("-p, --preview", "预览重命名结果，不实际执行")
+      .option(
+        "--estimate",
+        "预估文件数、帧数、批次、请求数据量、token 用量和耗时，不调用 AI",
+      )
       .option("-o, --output <dir>", "指定输出目录")
       .option("-b, --batch <size>", "设置批量处理大小", parseInt)
       .option(
         "-f, --frame-strategy [strategy]",
-        "设置帧提取策略 (single|multiple|keyframes)，不带值时进入交互选择",
+        "设置帧提取策略 (single|multiple|scene|keyframes)，不带值时进入交互选择",
+      )
+      .option("--frame-count <count>", "本次运行的视频取帧数", parseInt)
+      .option(
+        "--max-keyframes <count>",
+        "本次运行关键帧策略的最大取帧数",
+        parseInt,
+      )
+      .option(
+        "--start-offset <offset>",
+        "本次运行的取帧起始偏移，秒数或百分比 (如: 2 或 10%)",
+      )
+      .option(
+        "--frame-rules <rules>",
+        "本次运行按时长调整取帧数的规则 (如: 10:1,120:3,8)",
+      )
+      .option(
+        "--contact-sheet",
+        "本次运行把视频的各帧和多张小图拼接为网格图发送，减少图像数量",
       )
       .option(
         "--template <template>",
@@ -93,7 +142,30 @@ class FrameSenseCLI {
         "--date-source <sources>",
         "日期来源优先级，逗号分隔 (exif,created,modified)",
       )
+      .option(
+        "--profile <name>",
+        "本次运行使用的提示词配置档 (见 config profile list)",
+      )
+      .option(
+        "--case <style>",
+        `本次运行使用的文件名风格 (${FileUtils.FILENAME_CASES.join("|")})`,
+      )
+      .option("--separator <sep>", "本次运行使用的文件名单词分隔符")
+      .option(
+        "--max-cost <usd>",
+        "本次运行的费用上限（美元），即将超出时停止处理剩余文件",
+        parseFloat,
+      )
+      .option(
+        "--record <dir>",
+        "把每次 AI 请求的指纹和原始响应保存到目录，供 --replay 回放",
+      )
+      .option(
+        "--replay <dir>",
+        "从 --record 录制的目录回放 AI 响应，不调用模型服务",
+      )
       .option("--test-spinner", "测试进度条动画")
+      .option("--no-cache", "忽略结果缓存，重新分析所有文件")
       .option("-v, --verbose", "启用详细输出和调试模式")
       .option("--config", "显示配置信息")
       .option("--formats", "显示支持的格式")
@@ -125,12 +197,87 @@ class FrameSenseCLI {
       );
 
     // 添加配置子命令
-    this.program
+    const configCommand = this.program
       .command("config")
       .description("配置管理")
-      .option("--api <key>", "设置 Google Gemini API Key")
+      // config 与 profile add 有同名选项，profile 之后的选项交给 profile 子命令解析
+      .enablePositionalOptions()
+      .option(
+        "--provider [name]",
+        `设置视觉模型提供商 (${ConfigManager.SUPPORTED_PROVIDERS.join("|")})，不带值时进入交互选择`,
+      )
+      .option("--api <key>", "设置当前提供商的 API Key")
+      .option("--model <name>", "设置当前提供商使用的模型")
+      .option(
+        "--base-url <url>",
+        "设置 OpenAI 兼容接口地址 (如: http://localhost:8000/v1)",
+      )
       .option("--batch-size <size>", "设置批量处理大小", parseInt)
-      .option("--filename-length <length>", "设置文件名字数长度限制", parseInt)
+      .option("--parallel", "启用批次并行处理")
+      .option("--no-parallel", "关闭批次并行处理")
+      .option(
+        "--max-concurrency <count>",
+        "设置并行处理时同时分析的最大批次数",
+        parseInt,
+      )
+      .option(
+        "--max-retries <count>",
+        "设置请求失败时的最大重试次数 (0 表示不重试)",
+        parseInt,
+      )
+      .option(
+        "--fallback <models>",
+        "设置备用模型，逗号分隔，按顺序尝试 (如: gemini-2.5-flash-lite,ollama:llava)",
+      )
+      .option("--no-fallback", "清除备用模型")
+      .option(
+        "--price <[model=]input,output>",
+        "设置模型的价格（美元 / 百万 tokens），如 0.3,2.5；默认为当前模型，可用 <模型>= 前缀指定其他模型",
+      )
+      .option(
+        "--language <lang>",
+        `设置生成内容的语言 (${ConfigManager.SUPPORTED_LANGUAGES.join("|")})`,
+      )
+      .option("--romanize", "将文件名中的中文转换为拼音，只保留 ASCII 字符")
+      .option("--no-romanize", "保留文件名中的中文")
+      .option("--frame-count <count>", "设置视频取帧数", parseInt)
+      .option(
+        "--start-offset <offset>",
+        "设置取帧起始偏移，秒数或百分比 (如: 2 或 10%)，跳过片头黑场",
+      )
+      .option("--no-start-offset", "清除取帧起始偏移")
+      .option(
+        "--frame-rules <rules>",
+        "设置按时长调整取帧数的规则 (如: 10:1,120:3,8)",
+      )
+      .option("--no-frame-rules", "清除按时长调整取帧数的规则")
+      .option("--max-keyframes <count>", "设置关键帧策略的最大取帧数", parseInt)
+      .option(
+        "--quality-check",
+        "跳过黑场、白场、纯色和模糊的视频帧，在附近重新取帧",
+      )
+      .option("--no-quality-check", "不检查视频帧画质")
+      .option(
+        "--contact-sheet",
+        "把视频的各帧和多张小图拼接为网格图发送，减少图像 token",
+      )
+      .option("--no-contact-sheet", "每帧单独发送")
+      .option("--context", "在请求中附带原文件名、文件夹、EXIF 等文件信息")
+      .option("--no-context", "不发送文件信息，只发送图像")
+      .option(
+        "--context-fields <fields>",
+        `设置允许发送的文件信息字段，逗号分隔 (${FileContext.FIELDS.join(",")})`,
+      )
+      .option(
+        "--filename-length <length>",
+        "设置文件名长度限制（中文、日文按字符计，英文按单词计）",
+        parseInt,
+      )
+      .option(
+        "--case <style>",
+        `设置文件名风格 (${FileUtils.FILENAME_CASES.join("|")})`,
+      )
+      .option("--separator <sep>", "设置文件名单词分隔符，默认由风格决定")
       .option("--custom-prompt <template>", "设置自定义 prompt 模板")
       .option("--template <template>", "设置文件名模板")
       .option("--date-source <sources>", "设置日期来源")
@@ -140,6 +287,131 @@ class FrameSenseCLI {
       .action(async (options) => {
         await this.handleSubCommand(options);
       });
+
+    // 添加提示词配置档子命令
+    const profileCommand = configCommand
+      .command("profile")
+      .description("提示词配置档管理");
+
+    profileCommand
+      .command("add <name>")
+      .description("添加或更新提示词配置档")
+      .option("--custom-prompt <template>", "自定义 prompt 模板")
+      .option(
+        "--filename-length <length>",
+        "文件名长度限制（中文、日文按字符计，英文按单词计）",
+        parseInt,
+      )
+      .option(
+        "--language <lang>",
+        `生成内容的语言 (${ConfigManager.SUPPORTED_LANGUAGES.join("|")})`,
+      )
+      .option("--template <template>", "默认文件名模板")
+      .action((name: string, options: ProfileCommandOptions) => {
+        this.handleProfileAdd(name, options);
+      });
+
+    profileCommand
+      .command("list")
+      .description("列出提示词配置档")
+      .action(() => {
+        UIUtils.printPromptProfiles(this.config.getPromptProfiles());
+      });
+
+    profileCommand
+      .command("remove <name>")
+      .description("删除提示词配置档")
+      .action((name: string) => {
+        if (this.config.removePromptProfile(name)) {
+          UIUtils.logSuccess(`提示词配置档已删除: ${name}`);
+        } else {
+          UIUtils.logError(`提示词配置档不存在: ${name}`);
+        }
+      });
+
+    // 添加结果缓存子命令
+    const cacheCommand = this.program
+      .command("cache")
+      .description("结果缓存管理");
+
+    cacheCommand
+      .command("stats")
+      .description("显示结果缓存统计")
+      .action(() => {
+        UIUtils.printCacheStats(getResultCache().getStats());
+      });
+
+    cacheCommand
+      .command("clear")
+      .description("清空结果缓存")
+      .option("-y, --yes", "跳过确认")
+      .action(async (options: { yes?: boolean }) => {
+        await this.handleCacheClear(options.yes);
+      });
+  }
+
+  /**
+   * 添加或更新提示词配置档
+   * @param name - 配置档名称
+   * @param options - 配置档设置
+   */
+  private handleProfileAdd(name: string, options: ProfileCommandOptions) {
+    const profile: PromptProfile = {};
+
+    if (options.customPrompt !== undefined) {
+      profile.customTemplate = options.customPrompt;
+    }
+    if (options.filenameLength !== undefined) {
+      if (!(options.filenameLength >= 1 && options.filenameLength <= 100)) {
+        UIUtils.logError("文件名长度必须在 1-100 之间");
+        return;
+      }
+      profile.filenameLength = options.filenameLength;
+    }
+    if (options.language !== undefined) {
+      if (
+        !ConfigManager.SUPPORTED_LANGUAGES.includes(
+          options.language as PromptLanguage,
+        )
+      ) {
+        UIUtils.logError(
+          `不支持的语言: ${options.language}，可选: ${ConfigManager.SUPPORTED_LANGUAGES.join(", ")}`,
+        );
+        return;
+      }
+      profile.language = options.language as PromptLanguage;
+    }
+    if (options.template !== undefined) {
+      profile.filenameTemplate = options.template;
+    }
+
+    if (Object.keys(profile).length === 0) {
+      UIUtils.logError(
+        "请至少指定一项设置: --custom-prompt、--filename-length、--language 或 --template",
+      );
+      return;
+    }
+
+    const exists = name in this.config.getPromptProfiles();
+    this.config.setPromptProfile(name, profile);
+    UIUtils.logSuccess(
+      `提示词配置档已${exists ? "更新" : "添加"}: ${name}，使用方式: frame-sense <路径> --profile ${name}`,
+    );
+  }
+
+  /**
+   * 清空结果缓存
+   * @param skipConfirmation - 是否跳过确认
+   */
+  private async handleCacheClear(skipConfirmation = false) {
+    if (
+      skipConfirmation ||
+      (await UIUtils.askConfirmation("确定要清空结果缓存吗？"))
+    ) {
+      const count = getResultCache().clear();
+      UIUtils.logSuccess(`已清除 ${count} 条缓存结果`);
+    }
+    SignalHandler.shutdown();
   }
 
   /** 处理主命令 */
@@ -182,9 +454,9 @@ class FrameSenseCLI {
         return;
       }
 
-      // 测试 API 连接
-      if (options.test) {
-        await this.testAPIConnection();
+      // 列出可用模型
+      if (options.models) {
+        await this.listModels();
         return;
       }
 
@@ -200,6 +472,12 @@ class FrameSenseCLI {
         return;
       }
 
+      // 预估不调用 AI，不需要 API Key
+      if (options.estimate) {
+        await this.estimateRun(filePath);
+        return;
+      }
+
       // 验证配置
       const validation = this.config.validateConfig();
       if (!validation.valid) {
@@ -231,9 +509,29 @@ class FrameSenseCLI {
     show?: boolean;
     reset?: boolean;
     resetPrompt?: boolean;
+    provider?: string | boolean;
     api?: string;
+    model?: string;
+    baseUrl?: string;
     batchSize?: number;
+    parallel?: boolean;
+    maxConcurrency?: number;
+    maxRetries?: number;
+    fallback?: string | false;
+    price?: string;
+    language?: string;
+    romanize?: boolean;
+    frameCount?: number;
+    startOffset?: string | false;
+    frameRules?: string | false;
+    maxKeyframes?: number;
+    qualityCheck?: boolean;
+    contactSheet?: boolean;
+    context?: boolean;
+    contextFields?: string;
     filenameLength?: number;
+    case?: string;
+    separator?: string;
     customPrompt?: string;
     template?: string;
     dateSource?: string;
@@ -269,23 +567,171 @@ class FrameSenseCLI {
 
       // 设置配置项
       const configUpdates: {
+        provider?: VisionProviderName;
         api?: string;
+        model?: string;
+        baseUrl?: string;
         batchSize?: number;
+        parallel?: boolean;
+        maxConcurrency?: number;
+        maxRetries?: number;
+        fallbackModels?: FallbackModel[];
+        price?: ModelPricing;
+        priceModel?: string;
+        language?: PromptLanguage;
+        romanize?: boolean;
+        context?: boolean;
+        contextFields?: PromptContextField[];
+        frameSampling?: Partial<FrameSamplingConfig>;
+        contactSheet?: boolean;
         filenameLength?: number;
+        filenameCase?: FilenameCase;
+        separator?: string;
         customPrompt?: string;
         template?: string;
         dateSource?: string;
       } = {};
 
+      // 不带值时进入交互选择
+      if (options.provider === true) {
+        options.provider = (await selectProvider()) || undefined;
+      }
+
+      if (typeof options.provider === "string") {
+        if (
+          !ConfigManager.SUPPORTED_PROVIDERS.includes(
+            options.provider as VisionProviderName,
+          )
+        ) {
+          UIUtils.logError(
+            `不支持的提供商: ${options.provider}，可选: ${ConfigManager.SUPPORTED_PROVIDERS.join(", ")}`,
+          );
+          return;
+        }
+        configUpdates.provider = options.provider as VisionProviderName;
+      }
       if (options.api) {
         configUpdates.api = options.api;
       }
+      if (options.model) {
+        configUpdates.model = options.model;
+      }
+      if (options.baseUrl) {
+        configUpdates.baseUrl = options.baseUrl;
+      }
       if (options.batchSize) {
         configUpdates.batchSize = options.batchSize;
       }
+      if (options.parallel !== undefined) {
+        configUpdates.parallel = options.parallel;
+      }
+      if (options.maxConcurrency !== undefined) {
+        configUpdates.maxConcurrency = options.maxConcurrency;
+      }
+      if (options.maxRetries !== undefined) {
+        configUpdates.maxRetries = options.maxRetries;
+      }
+      if (options.fallback !== undefined) {
+        const provider = configUpdates.provider || this.config.getProvider();
+        configUpdates.fallbackModels =
+          options.fallback === false
+            ? []
+            : options.fallback
+                .split(",")
+                .map((value) => value.trim())
+                .filter(Boolean)
+                .map((value) =>
+                  ConfigManager.parseFallbackModel(value, provider),
+                );
+      }
+      if (options.price !== undefined) {
+        // 可以用 <模型>= 前缀为备用模型等非当前模型设置价格
+        const separatorIndex = options.price.indexOf("=");
+        const priceModel =
+          separatorIndex >= 0
+            ? options.price.slice(0, separatorIndex).trim()
+            : undefined;
+        const [input, output] = options.price
+          .slice(separatorIndex + 1)
+          .split(",")
+          .map((value) => Number(value.trim()));
+        if (priceModel === "" || !(input >= 0) || !(output >= 0)) {
+          UIUtils.logError(
+            `价格格式无效: ${options.price}，应为 [<模型>=]<输入>,<输出>（美元 / 百万 tokens）`,
+          );
+          return;
+        }
+        configUpdates.price = { input, output };
+        if (priceModel) {
+          configUpdates.priceModel = priceModel;
+        }
+      }
+      if (options.language !== undefined) {
+        if (
+          !ConfigManager.SUPPORTED_LANGUAGES.includes(
+            options.language as PromptLanguage,
+          )
+        ) {
+          UIUtils.logError(
+            `不支持的语言: ${options.language}，可选: ${ConfigManager.SUPPORTED_LANGUAGES.join(", ")}`,
+          );
+          return;
+        }
+        configUpdates.language = options.language as PromptLanguage;
+      }
+      if (options.romanize !== undefined) {
+        configUpdates.romanize = options.romanize;
+      }
+      if (
+        options.frameCount !== undefined ||
+        options.startOffset !== undefined ||
+        options.frameRules !== undefined ||
+        options.maxKeyframes !== undefined ||
+        options.qualityCheck !== undefined
+      ) {
+        configUpdates.frameSampling = this.parseFrameSamplingOptions(options);
+      }
+      if (options.contactSheet !== undefined) {
+        configUpdates.contactSheet = options.contactSheet;
+      }
+      if (options.context !== undefined) {
+        configUpdates.context = options.context;
+      }
+      if (options.contextFields !== undefined) {
+        const fields = options.contextFields
+          .split(",")
+          .map((field) => field.trim())
+          .filter(Boolean);
+        const invalidFields = fields.filter(
+          (field) => !FileContext.FIELDS.includes(field as PromptContextField),
+        );
+        if (invalidFields.length > 0) {
+          UIUtils.logError(
+            `不支持的文件信息字段: ${invalidFields.join(", ")}，可选: ${FileContext.FIELDS.join(", ")}`,
+          );
+          return;
+        }
+        configUpdates.contextFields = fields as PromptContextField[];
+      }
       if (options.filenameLength !== undefined) {
         configUpdates.filenameLength = options.filenameLength;
       }
+      if (options.case !== undefined) {
+        if (!FileUtils.FILENAME_CASES.includes(options.case as FilenameCase)) {
+          UIUtils.logError(
+            `不支持的文件名风格: ${options.case}，可选: ${FileUtils.FILENAME_CASES.join(", ")}`,
+          );
+          return;
+        }
+        configUpdates.filenameCase = options.case as FilenameCase;
+      }
+      if (options.separator !== undefined) {
+        if (!FileUtils.isValidSeparator(options.separator)) {
+          UIUtils.logError(`文件名分隔符包含非法字符: ${options.separator}`);
+          return;
+        }
+        configUpdates.separator = options.separator;
+      }
       if (options.customPrompt !== undefined) {
         configUpdates.customPrompt = options.customPrompt;
       }
@@ -300,6 +746,18 @@ class FrameSenseCLI {
         const success = await interactiveConfig(configUpdates);
         if (success) {
           UIUtils.logSuccess("配置已更新");
+
+          // 切换到 Ollama 时默认批次大小会改为 1，手动设置过的批次大小保持不变，提示用户
+          const { batchSize } = this.config.getBatchProcessingConfig();
+          if (
+            configUpdates.provider === "ollama" &&
+            !configUpdates.batchSize &&
+            batchSize > 1
+          ) {
+            UIUtils.logWarning(
+              `当前批次大小为 ${batchSize}，本地模型建议每次只分析 1 张图像: frame-sense config --batch-size 1`,
+            );
+          }
         } else {
           UIUtils.logError("配置更新失败");
         }
@@ -315,6 +773,55 @@ class FrameSenseCLI {
     }
   }
 
+  /**
+   * 解析帧采样选项，格式错误时抛出异常
+   * @param options - 命令行选项，false 表示清除对应配置
+   * @returns 要更新的帧采样配置
+   */
+  private parseFrameSamplingOptions(options: {
+    frameCount?: number;
+    startOffset?: string | false;
+    frameRules?: string | false;
+    maxKeyframes?: number;
+    qualityCheck?: boolean;
+  }): Partial<FrameSamplingConfig> {
+    const frameSampling: Partial<FrameSamplingConfig> = {};
+
+    if (options.frameCount !== undefined) {
+      if (!(options.frameCount >= 1 && options.frameCount <= 100)) {
+        throw new Error("取帧数必须为 1 到 100 之间的整数");
+      }
+      frameSampling.frameCount = options.frameCount;
+    }
+
+    if (options.startOffset !== undefined) {
+      frameSampling.startOffset =
+        options.startOffset === false
+          ? undefined
+          : ConfigManager.parseStartOffset(options.startOffset);
+    }
+
+    if (options.frameRules !== undefined) {
+      frameSampling.durationRules =
+        options.frameRules === false
+          ? []
+          : ConfigManager.parseFrameCountRules(options.frameRules);
+    }
+
+    if (options.maxKeyframes !== undefined) {
+      if (!(options.maxKeyframes >= 1 && options.maxKeyframes <= 100)) {
+        throw new Error("关键帧上限必须为 1 到 100 之间的整数");
+      }
+      frameSampling.maxKeyframes = options.maxKeyframes;
+    }
+
+    if (options.qualityCheck !== undefined) {
+      frameSampling.qualityCheck = options.qualityCheck;
+    }
+
+    return frameSampling;
+  }
+
   /** 应用命令行选项到配置 */
   private async applyOptionsToConfig(options: CommandOptions) {
     const updates: {
@@ -341,6 +848,54 @@ class FrameSenseCLI {
       updates.dateSource = options.dateSource;
     }
 
+    // 文件名风格只对本次运行生效，配置错误由后续的配置验证报告
+    if (options.case !== undefined) {
+      this.config.overrideFilenameStyle({ case: options.case });
+    }
+
+    if (options.separator !== undefined) {
+      this.config.overrideFilenameStyle({ separator: options.separator });
+    }
+
+    // 费用上限只对本次运行生效
+    if (options.maxCost !== undefined) {
+      this.config.setMaxCost(options.maxCost);
+    }
+
+    // 录制/回放只对本次运行生效，且需要每个文件都实际经过提供商，因此不使用结果缓存
+    if (options.record !== undefined) {
+      this.config.setRecordDirectory(options.record);
+    }
+
+    if (options.replay !== undefined) {
+      this.config.setReplayDirectory(options.replay);
+    }
+
+    // --no-cache 只对本次运行生效
+    if (
+      options.cache === false ||
+      options.record !== undefined ||
+      options.replay !== undefined
+    ) {
+      this.config.setCacheEnabled(false);
+    }
+
+    // 帧采样只对本次运行生效
+    if (
+      options.frameCount !== undefined ||
+      options.startOffset !== undefined ||
+      options.frameRules !== undefined ||
+      options.maxKeyframes !== undefined
+    ) {
+      this.config.overrideFrameSampling(
+        this.parseFrameSamplingOptions(options),
+      );
+    }
+
+    if (options.contactSheet) {
+      this.config.overrideContactSheet();
+    }
+
     // 直接应用 frameExtractionStrategy 到配置，而不通过 interactiveConfig
     if (options.frameExtractionStrategy !== undefined) {
       this.config.setFrameExtractionStrategy(options.frameExtractionStrategy);
@@ -349,6 +904,19 @@ class FrameSenseCLI {
     if (Object.keys(updates).length > 0) {
       await interactiveConfig(updates);
     }
+
+    // 配置档只对本次运行生效，命令行指定的 --template 优先于配置档中的文件名模板
+    if (options.profile !== undefined) {
+      this.config.usePromptProfile(
+        options.profile,
+        options.template !== undefined
+          ? { filenameTemplate: options.template }
+          : {},
+      );
+      if (this.config.isVerboseMode()) {
+        progressLogger.info(`使用提示词配置档: ${options.profile}`);
+      }
+    }
   }
 
   /**
@@ -376,6 +944,31 @@ class FrameSenseCLI {
     }
   }
 
+  /**
+   * 列出当前提供商可用的模型
+   */
+  private async listModels(): Promise<void> {
+    progressLogger.startProgress("获取模型列表...");
+
+    try {
+      const analyzer = new AIAnalyzer();
+      const models = await analyzer.listModels();
+      progressLogger.succeedProgress("获取完成");
+
+      UIUtils.printModelList(
+        this.config.getProvider(),
+        models,
+        this.config.getModel(),
+      );
+
+      analyzer.destroy();
+    } catch (error) {
+      progressLogger.failProgress(
+        `获取模型列表失败: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
   /** 处理单个文件 */
   private async processSingleFile(filePath: string, options: CommandOptions) {
     UIUtils.printHeader("处理单个文件");
@@ -416,6 +1009,7 @@ class FrameSenseCLI {
           {
             originalName,
             newName,
+            analysisResult: result.success ? result.analysisResult : undefined,
           },
         ]);
       } else {
@@ -432,6 +1026,35 @@ class FrameSenseCLI {
     }
   }
 
+  /**
+   * 预估处理文件或目录的开销
+   * @param filePath - 文件或目录路径
+   */
+  private async estimateRun(filePath: string): Promise<void> {
+    const filePaths = FileUtils.isDirectory(filePath)
+      ? FileUtils.getMediaFiles(filePath, false).map((f) => f.path)
+      : [filePath];
+
+    if (!FileUtils.isMediaFile(filePaths[0] ?? "")) {
+      UIUtils.logError(`没有找到媒体文件: ${filePath}`);
+      return;
+    }
+
+    const estimator = new RunEstimator();
+    progressLogger.startProgress("预估中...");
+
+    try {
+      const estimate = await estimator.estimate(filePaths);
+      progressLogger.succeedProgress("预估完成");
+      UIUtils.printRunEstimate(estimate);
+    } catch (error) {
+      progressLogger.failProgress("预估失败");
+      throw error;
+    } finally {
+      estimator.destroy();
+    }
+  }
+
   /**
    * 处理目录
    */
@@ -480,6 +1103,7 @@ class FrameSenseCLI {
         const previews = results.map((r) => ({
           originalName: FileUtils.getFileNameWithoutExtension(r.originalPath),
           newName: FileUtils.getFileNameWithoutExtension(r.newPath),
+          analysisResult: r.success ? r.analysisResult : undefined,
         }));
         UIUtils.printRenamePreview(previews);
       } else {
@@ -527,7 +1151,10 @@ class FrameSenseCLI {
     UIUtils.printHeader("文件名模板示例");
 
     console.log(chalk.cyan("📋 可用变量:"));
-    console.log("  {ai}           - AI 分析的文件内容描述");
+    console.log("  {ai}           - AI 建议的文件名");
+    console.log("  {desc}         - AI 生成的一句话描述");
+    console.log("  {tags}         - AI 生成的标签，以下划线连接");
+    console.log("  {category}     - AI 判断的内容类别");
     console.log("");
 
     console.log(chalk.cyan("📅 日期格式:"));
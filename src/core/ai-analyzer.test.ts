@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { AIAnalyzer } from "@/core/ai-analyzer";
+import { getConfigManager } from "@/core/config";
+import { ProviderError } from "@/errors/provider-error";
+import {
+  createFakeProvider,
+  createSolidImage,
+  createTempDir,
+} from "@/test/helpers";
+import type { AnalysisTarget } from "@/types";
+
+describe("AIAnalyzer 按 ID 关联与重新请求", () => {
+  const temp = createTempDir();
+  let targets: AnalysisTarget[];
+
+  before(async () => {
+    const red = await createSolidImage(join(temp.dir, "a.jpg"), {
+      r: 200,
+      g: 0,
+      b: 0,
+    });
+    const green = await createSolidImage(join(temp.dir, "b.jpg"), {
+      r: 0,
+      g: 200,
+      b: 0,
+    });
+    targets = [red, green].map((path) => ({ path, frames: [{ path }] }));
+  });
+
+  after(() => temp.cleanup());
+
+  it("结果顺序与请求不同时按 ID 关联到对应文件", async () => {
+    const { provider } = createFakeProvider(() => [
+      { id: "item_2", filename: "green" },
+      { id: "item_1", filename: "red" },
+    ]);
+    const analyzer = new AIAnalyzer([provider]);
+
+    const results = await analyzer.analyzeTargets(targets);
+    analyzer.destroy();
+
+    assert.deepEqual(
+      results.map((result) => [result.originalPath, result.filename]),
+      [
+        [targets[0].path, "red"],
+        [targets[1].path, "green"],
+      ],
+    );
+  });
+
+  it("只重新请求 ID 错误或缺少结果的对象", async () => {
+    const { provider, calls } = createFakeProvider((_request, call) =>
+      call === 1
+        ? [
+            { id: "item_1", filename: "red" },
+            { id: "image_2", filename: "green" },
+          ]
+        : [{ id: "item_2", filename: "green" }],
+    );
+    const analyzer = new AIAnalyzer([provider]);
+
+    const results = await analyzer.analyzeTargets(targets);
+    analyzer.destroy();
+
+    assert.deepEqual(calls, [["item_1", "item_2"], ["item_2"]]);
+    assert.deepEqual(
+      results.map((result) => result.filename),
+      ["red", "green"],
+    );
+  });
+
+  it("重新请求次数用尽后放弃缺少结果的对象", async () => {
+    const { provider, calls } = createFakeProvider(() => [
+      { id: "item_1", filename: "red" },
+    ]);
+    const analyzer = new AIAnalyzer([provider]);
+
+    const results = await analyzer.analyzeTargets(targets);
+    analyzer.destroy();
+
+    assert.deepEqual(calls, [["item_1", "item_2"], ["item_2"], ["item_2"]]);
+    assert.deepEqual(
+      results.map((result) => result.originalPath),
+      [targets[0].path],
+    );
+  });
+
+  it("请求失败时保留错误类型、状态码和重试等待时间", async () => {
+    getConfigManager().setRetryConfig({ maxRetries: 0 });
+    const { provider } = createFakeProvider(() => {
+      throw new ProviderError("HTTP 429", "transient", {
+        status: 429,
+        retryAfterMs: 5000,
+      });
+    });
+    const analyzer = new AIAnalyzer([provider]);
+
+    await assert.rejects(analyzer.analyzeTargets(targets), {
+      name: "ProviderError",
+      kind: "transient",
+      status: 429,
+      retryAfterMs: 5000,
+    });
+    analyzer.destroy();
+  });
+
+  it("备用模型请求失败时保留已获得的结果", async () => {
+    const { provider: primary } = createFakeProvider((_request, call) =>
+      call === 1 ? [{ id: "item_1", filename: "red" }] : [],
+    );
+    const { provider: fallback, calls } = createFakeProvider(
+      () => {
+        throw new ProviderError("HTTP 400", "invalid_request", {
+          status: 400,
+        });
+      },
+      "openai",
+      "fallback-model",
+    );
+    const analyzer = new AIAnalyzer([primary, fallback]);
+
+    const results = await analyzer.analyzeTargets(targets);
+    analyzer.destroy();
+
+    assert.deepEqual(calls, [["item_2"]]);
+    assert.deepEqual(
+      results.map((result) => [result.originalPath, result.filename]),
+      [[targets[0].path, "red"]],
+    );
+  });
+
+  it("重新请求失败时保留首次请求已获得的结果", async () => {
+    const { provider, calls } = createFakeProvider((_request, call) => {
+      if (call > 1) {
+        throw new ProviderError("HTTP 400", "invalid_request", {
+          status: 400,
+        });
+      }
+      return [{ id: "item_1", filename: "red" }];
+    });
+    const analyzer = new AIAnalyzer([provider]);
+
+    const results = await analyzer.analyzeTargets(targets);
+    analyzer.destroy();
+
+    assert.deepEqual(calls, [["item_1", "item_2"], ["item_2"]]);
+    assert.deepEqual(
+      results.map((result) => result.filename),
+      ["red"],
+    );
+  });
+});
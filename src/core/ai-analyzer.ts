@@ -1,27 +1,52 @@
 /**
  * AI 分析器
- * 使用 Google Gemini API 进行图像内容分析，支持批量处理和智能优化
+ * 通过可插拔的视觉模型提供商进行图像内容分析，支持批量处理和智能优化
  */
 
-import { readFileSync } from "node:fs";
-import { GoogleGenAI } from "@google/genai";
 import { getConfigManager } from "@/core/config";
+import { CostTracker } from "@/core/cost-tracker";
 import { ImageProcessor } from "@/core/image-processor";
+import { createVisionProviderChain } from "@/core/providers";
+import {
+  ANALYSIS_RESPONSE_SCHEMA,
+  formatTimestamp,
+  validateAnalysisItems,
+} from "@/core/providers/response-schema";
+import { getResultCache } from "@/core/result-cache";
+import { ProviderError } from "@/errors/provider-error";
 import type {
+  AnalysisFrame,
+  AnalysisItem,
   AnalysisRequest,
   AnalysisResult,
+  AnalysisTarget,
   BatchProcessingStats,
+  LabeledItem,
+  PromptLanguage,
+  ProviderTestResult,
+  TokenUsage,
+  VideoFrameInfo,
+  VisionProvider,
 } from "@/types";
+import { ConcurrencyUtils } from "@/utils/concurrency";
+import { FileContext } from "@/utils/file-context";
 import { FileUtils } from "@/utils/file-utils";
 import { progressLogger } from "@/utils/progress-logger";
+import { RetryUtils } from "@/utils/retry";
 
 export class AIAnalyzer {
-  /** Google Generative AI 实例 */
-  private genAI: GoogleGenAI;
+  /** 视觉模型提供商链，第一个为主提供商，其余为按顺序尝试的备用模型 */
+  private providers: VisionProvider[];
   /** 图像处理器实例 */
   private imageProcessor: ImageProcessor;
-  /** 默认自定义内容模板 */
-  private static readonly DEFAULT_CUSTOM_CONTENT = `
+  /** 累计请求重试次数 */
+  private retryCount = 0;
+  /** 各语言的默认自定义内容模板，文件名长度在中文、日文中按字符计，在英文中按单词计 */
+  private static readonly DEFAULT_CUSTOM_CONTENT: Record<
+    PromptLanguage,
+    string
+  > = {
+    "zh-CN": `
 请分析这些图像的内容，并为每个图像生成一个描述性的文件名。
 
 要求：
@@ -31,7 +56,30 @@ export class AIAnalyzer {
 - 重点突出图像的主要特征、场景或对象
 - 如果是人物照片，描述场景而不是具体人物
 - 如果是风景照片，描述地点特征或景观类型
-- 如果是物品照片，描述物品类型和特征`;
+- 如果是物品照片，描述物品类型和特征`,
+    en: `
+Analyze the content of these images and generate a descriptive filename for each image.
+
+Requirements:
+- Use at most {{filenameLength}} words in the filename.
+- Describe the main content in English
+- Avoid special characters; separate words with underscores or hyphens
+- Highlight the main features, scene or objects of the image
+- For photos of people, describe the scene rather than the specific person
+- For landscape photos, describe the location features or type of scenery
+- For photos of objects, describe the object type and its features`,
+    ja: `
+これらの画像の内容を分析し、各画像に内容がわかるファイル名を付けてください。
+
+要件：
+- ファイル名は{{filenameLength}}文字以内にしてください。
+- 日本語で主な内容を表してください
+- 特殊文字は避け、区切りにはアンダースコアまたはハイフンを使ってください
+- 画像の主な特徴、シーン、被写体を強調してください
+- 人物写真の場合は、特定の人物ではなくシーンを表してください
+- 風景写真の場合は、場所の特徴や景観の種類を表してください
+- 物の写真の場合は、物の種類と特徴を表してください`,
+  };
 
   /** 固定的 JSON 格式要求（不可修改） */
   private static readonly FIXED_JSON_FORMAT = `
@@ -40,22 +88,42 @@ export class AIAnalyzer {
 {
   "results": [
     {
+      "id": "图像 ID",
       "filename": "建议的文件名",
+      "description": "一句话描述内容",
+      "tags": ["标签1", "标签2", "标签3"],
+      "category": "内容类别"
     }
   ]
 }
 
-确保为每个图像都提供一个结果，结果数量必须与图像数量一致。`;
+description、tags 和 category 使用与文件名相同的语言。
+每个图像前都标注了"图像 ID"，id 字段必须原样返回对应图像的 ID。
+视频标注了"视频 ID"，并以按时间顺序排列的多帧（或各片段的描述）给出，请综合所有内容为整个视频生成一个文件名，每个视频只返回一个结果。
+确保为每个图像和视频都提供一个结果，结果数量必须与 ID 数量一致。`;
 
-  constructor() {
-    const config = getConfigManager();
-    const apiKey = config.getApiKey();
+  /** 开启文件信息注入时附加的说明 */
+  private static readonly FILE_CONTEXT_HINT = `
+部分图像和视频的 ID 后附有文件信息（原文件名、所在文件夹、拍摄时间、相机、GPS 坐标等），可作为命名的参考，但应以画面内容为准；相机自动生成的文件名（如 IMG_1234、DSC01234）没有参考价值。`;
 
-    if (!apiKey) {
-      throw new Error("Google Gemini API Key 未配置");
-    }
+  /** 开启拼接图时附加的说明 */
+  private static readonly CONTACT_SHEET_HINT = `
+部分视频的各帧、以及多张图像被拼接为一张网格图发送，请求中会说明网格的行列数。视频拼接图的每格左上角标注帧序号和时间点，应综合所有格子为整个视频命名；多张图像的拼接图每格左上角标注图像 ID，应分别为每个 ID 对应格子中的图像命名，不要混淆相邻的格子。`;
 
-    this.genAI = new GoogleGenAI({ apiKey });
+  /** 每张小图拼接图最多包含的图像数（2 × 2） */
+  private static readonly SMALL_IMAGES_PER_SHEET = 4;
+
+  /** 图像缺少有效结果时，重新请求的最大次数 */
+  private static readonly MAX_REPAIR_ATTEMPTS = 2;
+
+  /** 一个视频作为整体发送的最大帧数，超出时分段分析后根据片段描述汇总命名 */
+  public static readonly MAX_GROUPED_FRAMES = 10;
+
+  /**
+   * @param providers - 视觉模型提供商链，默认根据配置创建
+   */
+  constructor(providers: VisionProvider[] = createVisionProviderChain()) {
+    this.providers = providers;
     this.imageProcessor = new ImageProcessor();
   }
 
@@ -64,7 +132,7 @@ export class AIAnalyzer {
    * @param userPrompt - 用户自定义提示词
    * @returns 生成的提示词
    */
-  private generatePrompt(userPrompt?: string): string {
+  public generatePrompt(userPrompt?: string): string {
     const config = getConfigManager();
     const promptConfig = config.getPromptConfig();
 
@@ -82,15 +150,28 @@ export class AIAnalyzer {
         promptConfig.filenameLength.toString(),
       );
     } else {
-      // 使用默认内容模板
-      customContent = AIAnalyzer.DEFAULT_CUSTOM_CONTENT.replace(
+      // 使用当前语言的默认内容模板
+      customContent = AIAnalyzer.DEFAULT_CUSTOM_CONTENT[
+        promptConfig.language
+      ].replace(
         /\{\{filenameLength\}\}/g,
         promptConfig.filenameLength.toString(),
       );
     }
 
     // 组合自定义内容和固定的 JSON 格式要求
-    return customContent + AIAnalyzer.FIXED_JSON_FORMAT;
+    const fileContextHint = config.getPromptContextConfig().enabled
+      ? AIAnalyzer.FILE_CONTEXT_HINT
+      : "";
+    const contactSheetHint = config.isContactSheetEnabled()
+      ? AIAnalyzer.CONTACT_SHEET_HINT
+      : "";
+    return (
+      customContent +
+      AIAnalyzer.FIXED_JSON_FORMAT +
+      fileContextHint +
+      contactSheetHint
+    );
   }
 
   /**
@@ -114,11 +195,13 @@ export class AIAnalyzer {
    * 分析多个图像
    * @param imagePaths - 图像文件路径列表
    * @param userPrompt - 用户自定义提示词
+   * @param useCache - 是否使用结果缓存
    * @returns 分析结果列表
    */
   public async analyzeImages(
     imagePaths: string[],
     userPrompt?: string,
+    useCache = true,
   ): Promise<AnalysisResult[]> {
     if (imagePaths.length === 0) {
       return [];
@@ -139,29 +222,280 @@ export class AIAnalyzer {
       throw new Error("没有有效的图像文件");
     }
 
-    // 优化图像以适应 AI 分析
-    const optimizedImages =
-      await this.imageProcessor.batchOptimizeForAI(validImages);
+    // 命中缓存的图像直接使用缓存结果
+    const cache = getResultCache();
+    const cachedResults = new Map<string, AnalysisResult>();
+    const cacheKeys = new Map<string, string>();
+
+    if (useCache && cache.isEnabled()) {
+      const prompt = this.generatePrompt(userPrompt);
+      for (const imagePath of validImages) {
+        const key = await cache.createKey(imagePath, prompt);
+        const cached = cache.get(key, imagePath);
+        if (cached) {
+          cachedResults.set(imagePath, cached);
+        } else {
+          cacheKeys.set(imagePath, key);
+        }
+      }
+
+      if (cachedResults.size > 0 && getConfigManager().isVerboseMode()) {
+        progressLogger.info(`缓存命中 ${cachedResults.size} 个图像，跳过分析`);
+      }
+    }
+
+    const pendingImages = validImages.filter(
+      (imagePath) => !cachedResults.has(imagePath),
+    );
+    const analyzedResults =
+      pendingImages.length > 0
+        ? await this.requestTargetAnalysis(
+            pendingImages.map((imagePath) => ({
+              path: imagePath,
+              frames: [{ path: imagePath }],
+            })),
+            userPrompt,
+          )
+        : [];
+
+    for (const result of analyzedResults) {
+      const key = cacheKeys.get(result.originalPath);
+      if (key) {
+        cache.set(key, result);
+      }
+    }
+    cache.flush();
+
+    // 按输入顺序合并缓存结果和新的分析结果
+    const analyzedMap = new Map(
+      analyzedResults.map((result) => [result.originalPath, result]),
+    );
+    return validImages
+      .map(
+        (imagePath) =>
+          cachedResults.get(imagePath) || analyzedMap.get(imagePath),
+      )
+      .filter((result): result is AnalysisResult => !!result);
+  }
+
+  /**
+   * 分析一个视频：帧数不多时所有帧作为一个整体发送，否则分段分析后汇总命名
+   * @param frameInfo - 视频帧信息
+   * @param userPrompt - 用户自定义提示词
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果
+   */
+  public async analyzeVideo(
+    frameInfo: VideoFrameInfo,
+    userPrompt?: string,
+    usage?: TokenUsage,
+  ): Promise<AnalysisResult> {
+    const target = AIAnalyzer.createVideoTarget(frameInfo);
+
+    if (target.frames.length > AIAnalyzer.MAX_GROUPED_FRAMES) {
+      return this.analyzeLongVideo(target, userPrompt, usage);
+    }
+
+    const [result] = await this.requestTargetAnalysis(
+      [target],
+      userPrompt,
+      usage,
+    );
+    if (!result) {
+      throw new Error("视频分析失败，未获得结果");
+    }
+    return result;
+  }
+
+  /**
+   * 分析一组对象（图片或视频帧组），不使用结果缓存
+   * @param targets - 分析对象列表
+   * @param userPrompt - 用户自定义提示词
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果列表（仅包含获得有效结果的对象）
+   */
+  public async analyzeTargets(
+    targets: AnalysisTarget[],
+    userPrompt?: string,
+    usage?: TokenUsage,
+  ): Promise<AnalysisResult[]> {
+    if (targets.length === 0) {
+      return [];
+    }
+    return this.requestTargetAnalysis(targets, userPrompt, usage);
+  }
+
+  /**
+   * 将视频帧信息转换为分析对象，各帧附带时间点，视频时长在开启文件信息注入时随文件信息发送
+   * @param frameInfo - 视频帧信息
+   * @returns 分析对象
+   */
+  public static createVideoTarget(frameInfo: VideoFrameInfo): AnalysisTarget {
+    return {
+      path: frameInfo.videoPath,
+      frames: frameInfo.framePaths.map((path, index) => ({
+        path,
+        timestamp: frameInfo.frameTimestamps[index],
+      })),
+      duration: frameInfo.duration,
+    };
+  }
+
+  /**
+   * 分段分析长视频：先为每段帧生成描述，再根据按时间顺序排列的片段描述为整个视频命名
+   * @param target - 视频分析对象
+   * @param userPrompt - 用户自定义提示词
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果
+   */
+  private async analyzeLongVideo(
+    target: AnalysisTarget,
+    userPrompt?: string,
+    usage?: TokenUsage,
+  ): Promise<AnalysisResult> {
+    const segments = this.createBatches(
+      target.frames,
+      AIAnalyzer.MAX_GROUPED_FRAMES,
+    );
+    const segmentTargets: AnalysisTarget[] = segments.map((frames, index) => ({
+      path: `${target.path}#${index + 1}`,
+      frames,
+      context: `片段 ${index + 1}/${segments.length}，请在 description 字段中简要描述该片段的内容`,
+    }));
+
+    progressLogger.info(
+      `视频共 ${target.frames.length} 帧，分为 ${segments.length} 个片段分析后汇总命名`,
+    );
+
+    // 每次请求的帧数不超过批次大小
+    const { batchSize } = getConfigManager().getBatchProcessingConfig();
+    const segmentResults = new Map<string, AnalysisResult>();
+    for (const group of this.createBatches(
+      segmentTargets,
+      Math.max(1, Math.floor(batchSize / AIAnalyzer.MAX_GROUPED_FRAMES)),
+    )) {
+      for (const result of await this.requestTargetAnalysis(
+        group,
+        userPrompt,
+        usage,
+      )) {
+        segmentResults.set(result.originalPath, result);
+      }
+    }
+
+    const captions = segmentTargets.flatMap((segment, index) => {
+      const result = segmentResults.get(segment.path);
+      if (!result) {
+        return [];
+      }
+      return [
+        `片段 ${index + 1}${this.formatFrameRange(segment.frames)}: ${
+          result.description !== "无描述" ? result.description : result.filename
+        }`,
+      ];
+    });
+
+    if (captions.length === 0) {
+      throw new Error("视频各片段均未获得分析结果");
+    }
+
+    const [summary] = await this.requestTargetAnalysis(
+      [
+        {
+          path: target.path,
+          frames: [],
+          duration: target.duration,
+          context: `以下是按时间顺序排列的各片段描述，请据此为整个视频命名：\n${captions.join("\n")}`,
+        },
+      ],
+      userPrompt,
+      usage,
+    );
+    if (!summary) {
+      throw new Error("视频汇总命名失败，未获得结果");
+    }
+    return summary;
+  }
+
+  /**
+   * 格式化一组帧的时间范围
+   * @param frames - 帧列表
+   * @returns 时间范围文本，时间未知时为空字符串
+   */
+  private formatFrameRange(frames: AnalysisFrame[]): string {
+    const first = frames[0]?.timestamp;
+    const last = frames[frames.length - 1]?.timestamp;
+    if (first === undefined || last === undefined) {
+      return "";
+    }
+    return ` (${formatTimestamp(first)}-${formatTimestamp(last)})`;
+  }
+
+  /**
+   * 优化各对象的帧并发送分析请求
+   * @param targets - 分析对象列表
+   * @param userPrompt - 用户自定义提示词
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果列表
+   */
+  private async requestTargetAnalysis(
+    targets: AnalysisTarget[],
+    userPrompt?: string,
+    usage?: TokenUsage,
+  ): Promise<AnalysisResult[]> {
+    const contextConfig = getConfigManager().getPromptContextConfig();
+
+    // 优化帧以适应 AI 分析，保留对象与结果路径的对应关系
+    const optimizedPaths: string[] = [];
+    const optimizedTargets: AnalysisTarget[] = [];
+    for (const target of targets) {
+      const frames: AnalysisFrame[] = [];
+      for (const frame of target.frames) {
+        try {
+          const optimizedPath = await this.imageProcessor.optimizeForAI(
+            frame.path,
+          );
+          optimizedPaths.push(optimizedPath);
+          frames.push({ ...frame, path: optimizedPath });
+        } catch (error) {
+          progressLogger.warn(`优化图像文件失败 ${frame.path}: ${error}`);
+        }
+      }
+
+      // 只有文字说明的对象（如长视频的汇总请求）不需要帧
+      if (frames.length > 0 || target.frames.length === 0) {
+        // 长视频的各片段不是实际文件，只在汇总请求中附带文件信息
+        const fileContext =
+          contextConfig.enabled && FileUtils.fileExists(target.path)
+            ? await FileContext.describe(
+                target.path,
+                contextConfig.fields,
+                target.duration === undefined
+                  ? undefined
+                  : formatTimestamp(target.duration),
+              )
+            : undefined;
+        optimizedTargets.push({ ...target, frames, fileContext });
+      }
+    }
+
+    if (optimizedTargets.length === 0) {
+      throw new Error("没有可分析的图像文件");
+    }
 
     try {
       // 发送分析请求
       const request: AnalysisRequest = {
-        imagePaths: optimizedImages,
+        targets: optimizedTargets,
         userPrompt,
         parseMultiple: true,
         requestId: `req_${Date.now()}`,
       };
 
-      const results = await this.sendAnalysisRequest(request);
-
-      // 映射结果到原始文件路径
-      return results.map((result, index) => ({
-        ...result,
-        originalPath: validImages[index] || imagePaths[index],
-      }));
+      return await this.sendAnalysisRequest(request, usage);
     } finally {
-      // 清理优化后的临时图像
-      this.imageProcessor.cleanup();
+      // 只清理本次请求的临时图像，其他并发请求的图像仍在使用
+      this.imageProcessor.cleanup(optimizedPaths);
     }
   }
 
@@ -186,12 +520,12 @@ export class AIAnalyzer {
     stats: BatchProcessingStats;
   }> {
     const startTime = Date.now();
+    const startRetryCount = this.retryCount;
     const config = getConfigManager();
     const batchConfig = config.getBatchProcessingConfig();
 
     // 分批处理
     const batches = this.createBatches(imagePaths, batchConfig.batchSize);
-    const allResults: AnalysisResult[] = [];
     let successfulBatches = 0;
     let failedBatches = 0;
     let processedFiles = 0;
@@ -203,42 +537,52 @@ export class AIAnalyzer {
       );
     }
 
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      const batchNumber = i + 1;
+    let completedBatches = 0;
 
-      try {
-        if (config.isVerboseMode()) {
-          progressLogger.info(
-            `处理第 ${batchNumber}/${batches.length} 批，包含 ${batch.length} 个文件`,
-          );
+    // 按配置的并发数同时处理多个批次，结果按批次顺序合并
+    const batchResultsList = await ConcurrencyUtils.mapWithConcurrency(
+      batches,
+      config.getBatchConcurrency(),
+      async (batch, index) => {
+        const batchNumber = index + 1;
+        let batchResults: AnalysisResult[] = [];
+
+        try {
+          if (config.isVerboseMode()) {
+            progressLogger.info(
+              `处理第 ${batchNumber}/${batches.length} 批，包含 ${batch.length} 个文件`,
+            );
+          }
+
+          batchResults = await this.analyzeImages(batch, userPrompt);
+          successfulBatches++;
+
+          if (config.isVerboseMode()) {
+            progressLogger.info(
+              `第 ${batchNumber} 批处理完成，获得 ${batchResults.length} 个结果`,
+            );
+          }
+        } catch (error) {
+          progressLogger.error(`第 ${batchNumber} 批处理失败: ${error}`);
+          failedBatches++;
         }
 
-        const batchResults = await this.analyzeImages(batch, userPrompt);
-        allResults.push(...batchResults);
-        successfulBatches++;
+        processedFiles += batch.length;
+        completedBatches++;
 
-        if (config.isVerboseMode()) {
-          progressLogger.info(
-            `第 ${batchNumber} 批处理完成，获得 ${batchResults.length} 个结果`,
+        if (onProgress) {
+          onProgress(
+            processedFiles,
+            imagePaths.length,
+            completedBatches,
+            batches.length,
           );
         }
-      } catch (error) {
-        progressLogger.error(`第 ${batchNumber} 批处理失败: ${error}`);
-        failedBatches++;
-      }
-
-      processedFiles += batch.length;
 
-      if (onProgress) {
-        onProgress(
-          processedFiles,
-          imagePaths.length,
-          batchNumber,
-          batches.length,
-        );
-      }
-    }
+        return batchResults;
+      },
+    );
+    const allResults = batchResultsList.flat();
 
     const endTime = Date.now();
     const stats: BatchProcessingStats = {
@@ -251,6 +595,7 @@ export class AIAnalyzer {
         successfulBatches,
         failedBatches,
       },
+      retryCount: this.retryCount - startRetryCount,
     };
 
     return { results: allResults, stats };
@@ -258,134 +603,354 @@ export class AIAnalyzer {
 
   /**
    * 发送分析请求到 AI 服务
+   * 每个对象都标注稳定的 ID，结果按 ID 关联；缺失或未通过校验的对象会重新请求，
+   * 请求失败或重新请求后仍没有有效结果时，剩余对象依次交给备用模型
+   * 开启拼接图时，先把视频的各帧和多张小图拼接为网格图
    * @param request - 分析请求
-   * @returns 分析结果
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果（仅包含获得有效结果的对象）
    */
   private async sendAnalysisRequest(
     request: AnalysisRequest,
+    usage?: TokenUsage,
   ): Promise<AnalysisResult[]> {
-    const config = getConfigManager();
+    const prompt = this.generatePrompt(request.userPrompt);
+    const labeledItems: LabeledItem[] = request.targets.map(
+      (target, index) => ({
+        id: `item_${index + 1}`,
+        frames: target.frames,
+        context: target.context,
+        fileContext: target.fileContext,
+      }),
+    );
+    const sheetPaths = getConfigManager().isContactSheetEnabled()
+      ? await this.packContactSheets(labeledItems)
+      : [];
+    try {
+      return await this.requestLabeledItems(
+        request,
+        labeledItems,
+        prompt,
+        usage,
+      );
+    } finally {
+      this.imageProcessor.cleanup(sheetPaths);
+    }
+  }
 
-    // 准备图像数据
-    const imageParts = [];
-    for (const imagePath of request.imagePaths) {
-      const imageData = readFileSync(imagePath);
-      imageParts.push({
-        inlineData: {
-          data: imageData.toString("base64"),
-          mimeType: this.getMimeType(imagePath),
-        },
-      });
+  /**
+   * 把分析对象的帧拼接为网格图，减少请求中的图像数量
+   * 视频的多帧拼接为一张图，每格标注帧序号和时间点；单独的小图每 4 张拼接为一张，每格标注对象 ID
+   * 拼接失败时保留原来的帧
+   * @param labeledItems - 带 ID 标注的对象列表，帧会被替换为拼接图
+   * @returns 生成的拼接图路径，请求完成后清理
+   */
+  private async packContactSheets(
+    labeledItems: LabeledItem[],
+  ): Promise<string[]> {
+    const sheetPaths: string[] = [];
+    const smallImages: LabeledItem[] = [];
+
+    for (const item of labeledItems) {
+      const [firstFrame] = item.frames;
+      if (item.frames.length > 1) {
+        try {
+          const sheet = await this.imageProcessor.createContactSheet(
+            item.frames.map((frame, index) => ({
+              path: frame.path,
+              label:
+                frame.timestamp === undefined
+                  ? `${index + 1}`
+                  : `${index + 1} @ ${formatTimestamp(frame.timestamp)}`,
+            })),
+          );
+          sheetPaths.push(sheet.path);
+          item.frames = [{ path: sheet.path, sheet: sheet.layout }];
+        } catch (error) {
+          progressLogger.warn(
+            `拼接 ${item.id} 的视频帧失败，改为分别发送: ${error}`,
+          );
+        }
+      } else if (
+        firstFrame &&
+        firstFrame.timestamp === undefined &&
+        !item.context &&
+        (await this.isSmallImage(firstFrame.path))
+      ) {
+        smallImages.push(item);
+      }
     }
 
-    // 构建提示词
-    const prompt = this.generatePrompt(request.userPrompt);
-    const fullPrompt = `${prompt}\n\n图像数量: ${request.imagePaths.length}`;
+    // 小图本身已按一个图块计费，只有两张以上拼在一起才能节省
+    const cellSize = {
+      width: ImageProcessor.CONTACT_SHEET_CELL_SIZE,
+      height: ImageProcessor.CONTACT_SHEET_CELL_SIZE,
+    };
+    for (const group of this.createBatches(
+      smallImages,
+      AIAnalyzer.SMALL_IMAGES_PER_SHEET,
+    )) {
+      if (group.length < 2) {
+        continue;
+      }
 
-    if (config.isVerboseMode()) {
-      progressLogger.debug(
-        `图像 base64 大小: ${FileUtils.formatFileSize(
-          imageParts.reduce(
-            (sum, p) => sum + FileUtils.base64EncodedSize(p.inlineData.data),
-            0,
-          ),
-        )}`,
-      );
-      progressLogger.debug(`发送给 AI 的提示词: ${fullPrompt}`);
+      try {
+        const sheet = await this.imageProcessor.createContactSheet(
+          group.map((item) => ({ path: item.frames[0].path, label: item.id })),
+          cellSize,
+        );
+        sheetPaths.push(sheet.path);
+        group.forEach((item, index) => {
+          item.frames = [
+            { path: sheet.path, sheet: { ...sheet.layout, cell: index + 1 } },
+          ];
+        });
+      } catch (error) {
+        progressLogger.warn(`拼接小图失败，改为分别发送: ${error}`);
+      }
+    }
+
+    if (sheetPaths.length > 0 && getConfigManager().isVerboseMode()) {
+      progressLogger.info(`生成 ${sheetPaths.length} 张拼接图`);
     }
+    return sheetPaths;
+  }
 
+  /**
+   * 判断图像是否足够小，可以与其他小图拼接为一张网格图
+   * @param imagePath - 图像路径
+   * @returns 是否为小图
+   */
+  private async isSmallImage(imagePath: string): Promise<boolean> {
     try {
-      // 发送请求
-      const result = await this.genAI.models.generateContent({
-        model: config.get("defaultModel") as string,
-        contents: [fullPrompt, ...imageParts],
-      });
-      const text = result.text || "";
-
-      if (config.isVerboseMode()) {
-        progressLogger.info(
-          `AI 使用情况: ${JSON.stringify(result.usageMetadata, null, 2)}`,
+      const { width, height } =
+        await this.imageProcessor.estimateOptimizedSize(imagePath);
+      return (
+        width <= ImageProcessor.CONTACT_SHEET_CELL_SIZE &&
+        height <= ImageProcessor.CONTACT_SHEET_CELL_SIZE
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 依次使用提供商链请求各对象的结果，主模型失败或缺少结果的对象交给备用模型
+   * 最后一个模型也失败时返回已获得的部分结果，一个结果都没有时才抛出错误
+   * @param request - 分析请求
+   * @param labeledItems - 带 ID 标注的对象列表，与 request.targets 一一对应
+   * @param prompt - 提示词
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果（仅包含获得有效结果的对象）
+   */
+  private async requestLabeledItems(
+    request: AnalysisRequest,
+    labeledItems: LabeledItem[],
+    prompt: string,
+    usage?: TokenUsage,
+  ): Promise<AnalysisResult[]> {
+    const items = new Map<
+      string,
+      { item: AnalysisItem; provider: VisionProvider }
+    >();
+
+    for (const [index, provider] of this.providers.entries()) {
+      const pendingItems = labeledItems.filter((item) => !items.has(item.id));
+      if (pendingItems.length === 0) {
+        break;
+      }
+      if (index > 0) {
+        progressLogger.warn(
+          `${pendingItems.length} 个对象改用备用模型 ${provider.name}/${provider.model} 分析`,
         );
-        progressLogger.info(`AI 响应: ${text}`);
       }
 
-      // 解析响应
-      const analysisReponse = this.parseAnalysisResponse(
-        text,
-        request.imagePaths,
-      );
-      return analysisReponse;
-    } catch (error) {
-      throw new Error(
-        `AI 分析请求失败: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
+      try {
+        await this.requestWithRepair(
+          provider,
+          prompt,
+          pendingItems,
+          items,
+          usage,
+        );
+      } catch (error) {
+        // 已获得的结果可能来自前面的模型或重新请求，只有一个结果都没有时才整体失败
+        const isLast = index === this.providers.length - 1;
+        if (isLast && items.size === 0) {
+          throw error;
+        }
+        progressLogger.warn(
+          `模型 ${provider.name}/${provider.model} 请求失败${
+            isLast ? `，保留已获得的 ${items.size} 个结果` : ""
+          }: ${ProviderError.from(error).message}`,
+        );
+      }
     }
+
+    const results: AnalysisResult[] = [];
+    request.targets.forEach((target, index) => {
+      const entry = items.get(labeledItems[index].id);
+      if (entry) {
+        results.push(
+          this.toAnalysisResult(target.path, entry.item, entry.provider),
+        );
+      }
+    });
+
+    return results;
   }
 
   /**
-   * 解析 AI 响应
-   * @param responseText - AI 响应文本
-   * @param imagePaths - 图像路径列表
-   * @returns 解析后的结果
+   * 使用一个提供商请求一组对象的结果，缺失或未通过校验的对象会重新请求
+   * 只有首次请求的错误会抛出，重新请求失败时剩余对象保留为缺少结果
+   * @param provider - 视觉模型提供商
+   * @param prompt - 提示词
+   * @param labeledItems - 带 ID 标注的对象列表
+   * @param items - 有效结果及生成结果的提供商（按对象 ID 索引），获得的结果写入其中
+   * @param usage - 累计本次调用 token 用量的对象
    */
-  private parseAnalysisResponse(
-    responseText: string,
-    imagePaths: string[],
-  ): AnalysisResult[] {
-    try {
-      // 清理响应文本，移除可能的 markdown 格式
-      const cleanedText = responseText
-        .replace(/```json\n?/g, "")
-        .replace(/```\n?/g, "")
-        .trim();
-
-      // 修复 JSON 中的常见错误：移除对象末尾的多余逗号
-      const fixedJson = cleanedText
-        .replace(/,(\s*})/g, "$1") // 移除对象末尾的逗号
-        .replace(/,(\s*\])/g, "$1"); // 移除数组末尾的逗号
-
-      const parsed = JSON.parse(fixedJson);
-
-      const results: {
-        filename?: string;
-        description?: string;
-        tags?: string[];
-      }[] = parsed.results || [];
-
-      // 确保结果数量与图像数量匹配
-      if (results.length !== imagePaths.length) {
+  private async requestWithRepair(
+    provider: VisionProvider,
+    prompt: string,
+    labeledItems: LabeledItem[],
+    items: Map<string, { item: AnalysisItem; provider: VisionProvider }>,
+    usage?: TokenUsage,
+  ): Promise<void> {
+    let pendingItems = labeledItems;
+
+    for (
+      let attempt = 0;
+      attempt <= AIAnalyzer.MAX_REPAIR_ATTEMPTS && pendingItems.length > 0;
+      attempt++
+    ) {
+      if (attempt > 0) {
+        progressLogger.warn(
+          `${pendingItems.length} 个对象缺少有效结果，重新请求 (第 ${attempt} 次): ${pendingItems.map((item) => item.id).join(", ")}`,
+        );
+      }
+
+      let response: ReturnType<typeof validateAnalysisItems>;
+      try {
+        response = await this.requestAnalysisItems(
+          provider,
+          prompt,
+          pendingItems,
+          usage,
+        );
+      } catch (error) {
+        // 重新请求失败时不影响已获得的结果，剩余对象仍视为缺少结果
+        if (attempt === 0) {
+          throw error;
+        }
         progressLogger.warn(
-          `结果数量 (${results.length}) 与图像数量 (${imagePaths.length}) 不匹配`,
+          `重新请求失败，停止重新请求: ${ProviderError.from(error).message}`,
         );
+        break;
       }
 
-      const analysisResult = results.map((result, index: number) => ({
-        originalPath: imagePaths[index] || "",
-        suggestedName: FileUtils.sanitizeFilename(
-          result.filename || `image_${index + 1}`,
-        ),
-        description: result.description || "无描述",
-        tags: Array.isArray(result.tags) ? result.tags : [],
-        timestamp: Date.now(),
-        filename: result.filename || `image_${index + 1}`,
-      }));
-
-      return analysisResult;
+      const { valid, missing } = response;
+
+      for (const [id, item] of valid) {
+        items.set(id, { item, provider });
+      }
+      pendingItems = pendingItems.filter((item) => missing.includes(item.id));
+    }
+
+    if (pendingItems.length > 0) {
+      progressLogger.warn(
+        `${pendingItems.length} 个对象重新请求后仍未获得有效结果`,
+      );
+    }
+  }
+
+  /**
+   * 请求一组对象的结构化结果并校验
+   * @param provider - 视觉模型提供商
+   * @param prompt - 提示词
+   * @param items - 带 ID 标注的对象列表
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 有效结果（按对象 ID 索引）和需要重新请求的对象 ID
+   */
+  private async requestAnalysisItems(
+    provider: VisionProvider,
+    prompt: string,
+    items: LabeledItem[],
+    usage?: TokenUsage,
+  ): Promise<ReturnType<typeof validateAnalysisItems>> {
+    const config = getConfigManager();
+    const fullPrompt = `${prompt}\n\n结果数量: ${items.length}`;
+
+    if (config.isVerboseMode()) {
+      progressLogger.debug(`发送给 AI 的提示词: ${fullPrompt}`);
+    }
+
+    try {
+      const response = await RetryUtils.withRetry(
+        () =>
+          provider.analyzeImages({
+            prompt: fullPrompt,
+            items,
+            responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+          }),
+        config.getRetryConfig(),
+        (error, attempt, delayMs) => {
+          this.retryCount++;
+          progressLogger.warn(
+            `AI 请求失败，${(delayMs / 1000).toFixed(1)}s 后进行第 ${attempt} 次重试: ${error.message}`,
+          );
+        },
+      );
+
+      // 重新请求的用量同样计入
+      if (usage && response.usage) {
+        CostTracker.addUsage(usage, response.usage, provider.model);
+      }
+
+      return validateAnalysisItems(
+        response.results,
+        items.map((item) => item.id),
+      );
     } catch (error) {
-      progressLogger.error(`解析 AI 响应失败: ${error}`);
-
-      // 创建默认结果
-      return imagePaths.map((imagePath, index) => ({
-        originalPath: imagePath,
-        suggestedName: `image_${index + 1}`,
-        description: "解析失败，使用默认命名",
-        tags: [],
-        timestamp: Date.now(),
-        filename: `image_${index + 1}`,
-      }));
+      // 保留错误类型，便于上层区分临时错误和永久错误
+      const providerError = ProviderError.from(error);
+      throw new ProviderError(
+        `AI 分析请求失败: ${providerError.message}`,
+        providerError.kind,
+        {
+          status: providerError.status,
+          retryAfterMs: providerError.retryAfterMs,
+          cause: providerError,
+        },
+      );
     }
   }
 
+  /**
+   * 将校验通过的条目转换为分析结果
+   * @param path - 结果对应的文件路径
+   * @param item - 校验通过的条目
+   * @param provider - 生成结果的提供商
+   * @returns 分析结果
+   */
+  private toAnalysisResult(
+    path: string,
+    item: AnalysisItem,
+    provider: VisionProvider,
+  ): AnalysisResult {
+    return {
+      originalPath: path,
+      suggestedName: FileUtils.sanitizeFilename(item.filename),
+      description: item.description || "无描述",
+      tags: item.tags,
+      category: item.category || "未分类",
+      timestamp: Date.now(),
+      filename: item.filename,
+      provider: provider.name,
+      model: provider.model,
+      fallback: provider !== this.providers[0],
+    };
+  }
+
   /**
    * 创建批次
    * @param items - 要分批的项目
@@ -401,64 +966,27 @@ export class AIAnalyzer {
   }
 
   /**
-   * 获取图像的 MIME 类型
-   * @param imagePath - 图像路径
-   * @returns MIME 类型
+   * 获取累计请求重试次数
+   * @returns 重试次数
    */
-  private getMimeType(imagePath: string): string {
-    const extension = FileUtils.getFileExtension(imagePath);
-
-    switch (extension) {
-      case "jpg":
-      case "jpeg":
-        return "image/jpeg";
-      case "png":
-        return "image/png";
-      case "gif":
-        return "image/gif";
-      case "webp":
-        return "image/webp";
-      case "bmp":
-        return "image/bmp";
-      case "tiff":
-        return "image/tiff";
-      case "svg":
-        return "image/svg+xml";
-      default:
-        return "image/jpeg";
-    }
+  public getRetryCount(): number {
+    return this.retryCount;
   }
 
   /**
    * 测试 API 连接
    * @returns 测试结果
    */
-  public async testConnection(): Promise<{
-    success: boolean;
-    error?: string;
-    model?: string;
-  }> {
-    try {
-      const config = getConfigManager();
-
-      // 发送简单测试请求
-      const result = await this.genAI.models.generateContent({
-        model: config.get("defaultModel") as string,
-        contents:
-          'Hello, this is a test message. Please respond with "Test successful".',
-      });
-      const _text = result.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-      return {
-        success: true,
-        model: config.get("defaultModel") as string,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
-    }
+  public async testConnection(): Promise<ProviderTestResult> {
+    return this.providers[0].testConnection();
+  }
+
+  /**
+   * 列出当前提供商可用的模型
+   * @returns 模型名称列表
+   */
+  public async listModels(): Promise<string[]> {
+    return this.providers[0].listModels();
   }
 
   /**
@@ -476,8 +1004,11 @@ export class AIAnalyzer {
 export class AIBatchProcessor {
   private analyzer: AIAnalyzer;
 
-  constructor() {
-    this.analyzer = new AIAnalyzer();
+  /**
+   * @param providers - 视觉模型提供商链，默认根据配置创建
+   */
+  constructor(providers?: VisionProvider[]) {
+    this.analyzer = new AIAnalyzer(providers);
   }
 
   /**
@@ -519,6 +1050,54 @@ export class AIBatchProcessor {
     }
   }
 
+  /**
+   * 分析一批对象，请求失败时直接抛出错误，由调用方决定如何处理
+   * 调用方按原始文件维护缓存，这里不使用缓存
+   * @param targets - 分析对象列表
+   * @param userPrompt - 用户提示词
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果
+   */
+  public async analyzeBatch(
+    targets: AnalysisTarget[],
+    userPrompt?: string,
+    usage?: TokenUsage,
+  ): Promise<AnalysisResult[]> {
+    return this.analyzer.analyzeTargets(targets, userPrompt, usage);
+  }
+
+  /**
+   * 分析一个视频（帧数较多时分段分析后汇总命名）
+   * @param frameInfo - 视频帧信息
+   * @param userPrompt - 用户提示词
+   * @param usage - 累计本次调用 token 用量的对象
+   * @returns 分析结果
+   */
+  public async analyzeVideo(
+    frameInfo: VideoFrameInfo,
+    userPrompt?: string,
+    usage?: TokenUsage,
+  ): Promise<AnalysisResult> {
+    return this.analyzer.analyzeVideo(frameInfo, userPrompt, usage);
+  }
+
+  /**
+   * 获取完整提示词
+   * @param userPrompt - 用户提示词
+   * @returns 完整提示词
+   */
+  public getPrompt(userPrompt?: string): string {
+    return this.analyzer.generatePrompt(userPrompt);
+  }
+
+  /**
+   * 获取累计请求重试次数
+   * @returns 重试次数
+   */
+  public getRetryCount(): number {
+    return this.analyzer.getRetryCount();
+  }
+
   /**
    * 销毁批量处理器
    */
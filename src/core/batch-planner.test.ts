@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { statSync } from "node:fs";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { BatchPlanner } from "@/core/batch-planner";
+import { getConfigManager } from "@/core/config";
+import { ImageProcessor } from "@/core/image-processor";
+import { createSolidImage, createTempDir } from "@/test/helpers";
+import type { ItemCost } from "@/types";
+
+/**
+ * 按项目名称列出各批次
+ * @param batches - 批次列表
+ * @returns 各批次的项目名称
+ */
+function labelsOf(batches: { items: ItemCost[] }[]): string[][] {
+  return batches.map((batch) => batch.items.map((item) => item.label));
+}
+
+/**
+ * 创建项目开销
+ * @param label - 项目名称
+ * @param tokens - token 数
+ * @param bytes - 字节数
+ * @param frames - 帧数
+ * @returns 项目开销
+ */
+function item(
+  label: string,
+  tokens: number,
+  bytes = 100,
+  frames = 1,
+): ItemCost {
+  return { label, frames, tokens, bytes };
+}
+
+describe("BatchPlanner.planBatches", () => {
+  const planner = new BatchPlanner(new ImageProcessor());
+  const plan = (items: ItemCost[]) =>
+    planner.planBatches(items, async (cost) => cost);
+
+  beforeEach(() => {
+    getConfigManager().setBatchProcessingConfig({
+      batchSize: 10,
+      maxTokens: BatchPlanner.PROMPT_TOKENS + 1000,
+      maxRequestBytes: 1000,
+    });
+  });
+
+  afterEach(() => getConfigManager().resetConfig());
+
+  it("提示词计入 token 预算，超出时开始新批次", async () => {
+    const batches = await plan([item("a", 400), item("b", 600), item("c", 1)]);
+    assert.deepEqual(labelsOf(batches), [["a", "b"], ["c"]]);
+    assert.equal(batches[0].tokens, BatchPlanner.PROMPT_TOKENS + 1000);
+  });
+
+  it("请求字节数超出限制时开始新批次", async () => {
+    const batches = await plan([
+      item("a", 10, 600),
+      item("b", 10, 400),
+      item("c", 10, 1),
+    ]);
+    assert.deepEqual(labelsOf(batches), [["a", "b"], ["c"]]);
+    assert.equal(batches[0].bytes, 1000);
+  });
+
+  it("帧数超出批次大小时开始新批次，同一项目的帧不拆分", async () => {
+    const batches = await plan([
+      item("video", 10, 10, 6),
+      item("clip", 10, 10, 5),
+    ]);
+    assert.deepEqual(labelsOf(batches), [["video"], ["clip"]]);
+  });
+
+  it("单个项目超出限制时单独成批", async () => {
+    const batches = await plan([
+      item("a", 10),
+      item("huge", 5000, 5000),
+      item("b", 10),
+    ]);
+    assert.deepEqual(labelsOf(batches), [["a"], ["huge"], ["b"]]);
+  });
+});
+
+describe("BatchPlanner 开销估算", () => {
+  let temp: ReturnType<typeof createTempDir>;
+
+  before(() => {
+    temp = createTempDir();
+  });
+
+  after(() => temp.cleanup());
+
+  it("小图按一个图块计算，大图按 768 图块切分", () => {
+    assert.equal(BatchPlanner.estimateImageTokens(384, 384), 258);
+    assert.equal(BatchPlanner.estimateImageTokens(1024, 768), 2 * 258);
+    assert.equal(BatchPlanner.estimateImageTokens(1920, 1080), 3 * 2 * 258);
+  });
+
+  it("已经很小的帧按原文件 base64 编码后的大小估算", async () => {
+    const path = await createSolidImage(join(temp.dir, "frame.jpg"), {
+      r: 0,
+      g: 128,
+      b: 255,
+    });
+    const cost = await new BatchPlanner(new ImageProcessor()).estimateFrameCost(
+      path,
+    );
+    assert.equal(cost.tokens, 258 + 10);
+    assert.equal(cost.bytes, Math.ceil(statSync(path).size / 3) * 4);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * 批次规划器
+ * 估算每帧优化后的 token 和字节开销，在帧数、maxTokens 和请求大小限制内打包批次
+ * 同一项目的多帧（如视频的各帧）始终放在同一批次中
+ */
+
+import { getConfigManager } from "@/core/config";
+import { ImageProcessor } from "@/core/image-processor";
+import type { FrameCost, ItemCost, PlannedBatch } from "@/types";
+import { FileUtils } from "@/utils/file-utils";
+import { progressLogger } from "@/utils/progress-logger";
+
+export class BatchPlanner {
+  /** 每个图块消耗的 token 数 */
+  private static readonly TOKENS_PER_TILE = 258;
+  /** 图块边长（像素） */
+  private static readonly TILE_SIZE = 768;
+  /** 两边都不超过该尺寸的图像按一个图块计算 */
+  private static readonly SMALL_IMAGE_SIZE = 384;
+  /** 每帧的 ID 标注等文本开销 */
+  private static readonly TOKENS_PER_LABEL = 10;
+  /** 每次请求中提示词等固定开销 */
+  public static readonly PROMPT_TOKENS = 1000;
+  /** 优化后 JPEG 每像素的字节数（保守估计） */
+  private static readonly BYTES_PER_PIXEL = 0.5;
+  /** 图像处理器实例 */
+  private imageProcessor: ImageProcessor;
+
+  /**
+   * @param imageProcessor - 用于读取图像尺寸的图像处理器
+   */
+  constructor(imageProcessor: ImageProcessor) {
+    this.imageProcessor = imageProcessor;
+  }
+
+  /**
+   * 估算图像的输入 token 数
+   * 小图按一个图块计算，其余按 768x768 图块切分，每块 258 tokens
+   * @param width - 图像宽度
+   * @param height - 图像高度
+   * @returns token 数
+   */
+  public static estimateImageTokens(width: number, height: number): number {
+    if (
+      width <= BatchPlanner.SMALL_IMAGE_SIZE &&
+      height <= BatchPlanner.SMALL_IMAGE_SIZE
+    ) {
+      return BatchPlanner.TOKENS_PER_TILE;
+    }
+
+    return (
+      Math.ceil(width / BatchPlanner.TILE_SIZE) *
+      Math.ceil(height / BatchPlanner.TILE_SIZE) *
+      BatchPlanner.TOKENS_PER_TILE
+    );
+  }
+
+  /**
+   * 估算单帧经过 AI 优化后的请求开销
+   * @param framePath - 帧路径
+   * @returns 开销估算
+   */
+  public async estimateFrameCost(framePath: string): Promise<FrameCost> {
+    let width: number;
+    let height: number;
+    try {
+      ({ width, height } =
+        await this.imageProcessor.estimateOptimizedSize(framePath));
+    } catch (error) {
+      // 无法读取尺寸时按最大尺寸估算
+      progressLogger.debug(`无法读取图像尺寸 ${framePath}: ${error}`);
+      ({ maxWidth: width, maxHeight: height } =
+        ImageProcessor.AI_OPTIMIZED_OPTIONS);
+    }
+
+    // 已经很小的图像优化后通常不会比原文件更大
+    const fileInfo = FileUtils.getFileInfo(framePath);
+    const pixelBytes = width * height * BatchPlanner.BYTES_PER_PIXEL;
+    const rawBytes = fileInfo
+      ? Math.min(fileInfo.size, pixelBytes)
+      : pixelBytes;
+
+    return {
+      framePath,
+      width,
+      height,
+      tokens: BatchPlanner.estimateLabeledTokens(width, height),
+      bytes: Math.ceil(rawBytes / 3) * 4,
+    };
+  }
+
+  /**
+   * 按原始尺寸估算单帧经过 AI 优化后的请求开销，用于尚未提取的视频帧
+   * @param width - 原始宽度
+   * @param height - 原始高度
+   * @returns 估算的 token 数和字节数
+   */
+  public estimateSizeCost(
+    width: number,
+    height: number,
+  ): { tokens: number; bytes: number } {
+    const optimized = this.imageProcessor.estimateOptimizedDimensions(
+      width,
+      height,
+    );
+    return BatchPlanner.estimateOptimizedCost(
+      optimized.width,
+      optimized.height,
+    );
+  }
+
+  /**
+   * 按原始尺寸估算多帧拼接为一张网格图后的请求开销，用于尚未提取的视频帧
+   * @param count - 帧数
+   * @param width - 原始宽度
+   * @param height - 原始高度
+   * @returns 估算的 token 数和字节数
+   */
+  public estimateContactSheetSizeCost(
+    count: number,
+    width: number,
+    height: number,
+  ): { tokens: number; bytes: number } {
+    const optimized = this.imageProcessor.estimateOptimizedDimensions(
+      width,
+      height,
+    );
+    const sheet = ImageProcessor.getContactSheetSize(
+      count,
+      optimized.width,
+      optimized.height,
+    );
+    return BatchPlanner.estimateOptimizedCost(sheet.width, sheet.height);
+  }
+
+  /**
+   * 估算一个项目的所有帧拼接为一张网格图后的开销
+   * @param label - 项目名称
+   * @param framePaths - 帧路径
+   * @returns 项目开销（不含提示词），帧数仍按实际帧数计算
+   */
+  public async estimateContactSheetCost(
+    label: string,
+    framePaths: string[],
+  ): Promise<ItemCost> {
+    const firstFrame = await this.estimateFrameCost(framePaths[0]);
+    const sheet = ImageProcessor.getContactSheetSize(
+      framePaths.length,
+      firstFrame.width,
+      firstFrame.height,
+    );
+    return {
+      label,
+      frames: framePaths.length,
+      ...BatchPlanner.estimateOptimizedCost(sheet.width, sheet.height),
+    };
+  }
+
+  /**
+   * 按优化后的尺寸估算单张图像的请求开销
+   * @param width - 优化后的宽度
+   * @param height - 优化后的高度
+   * @returns 估算的 token 数和字节数
+   */
+  private static estimateOptimizedCost(
+    width: number,
+    height: number,
+  ): { tokens: number; bytes: number } {
+    const rawBytes = width * height * BatchPlanner.BYTES_PER_PIXEL;
+
+    return {
+      tokens: BatchPlanner.estimateLabeledTokens(width, height),
+      bytes: Math.ceil(rawBytes / 3) * 4,
+    };
+  }
+
+  /**
+   * 估算带 ID 标注的单帧 token 数
+   * @param width - 优化后的宽度
+   * @param height - 优化后的高度
+   * @returns token 数
+   */
+  private static estimateLabeledTokens(width: number, height: number): number {
+    return (
+      BatchPlanner.estimateImageTokens(width, height) +
+      BatchPlanner.TOKENS_PER_LABEL
+    );
+  }
+
+  /**
+   * 估算一个项目所有帧的总开销
+   * @param label - 项目名称
+   * @param framePaths - 帧路径
+   * @returns 项目开销（不含提示词）
+   */
+  public async estimateFramesCost(
+    label: string,
+    framePaths: string[],
+  ): Promise<ItemCost> {
+    let tokens = 0;
+    let bytes = 0;
+    for (const framePath of framePaths) {
+      const cost = await this.estimateFrameCost(framePath);
+      tokens += cost.tokens;
+      bytes += cost.bytes;
+    }
+    return { label, frames: framePaths.length, tokens, bytes };
+  }
+
+  /**
+   * 估算单独发送一个项目的输入 token 数
+   * @param cost - 项目开销
+   * @returns token 数（含提示词）
+   */
+  public static estimateRequestTokens(cost: ItemCost): number {
+    return BatchPlanner.PROMPT_TOKENS + cost.tokens;
+  }
+
+  /**
+   * 规划批次：按顺序贪心打包，任一限制即将超出时开始新批次
+   * 单个项目就超出限制时单独成批
+   * @param items - 待分批的项目
+   * @param estimateItemCost - 估算项目的开销
+   * @returns 批次列表
+   */
+  public async planBatches<T>(
+    items: T[],
+    estimateItemCost: (item: T) => Promise<ItemCost>,
+  ): Promise<PlannedBatch<T>[]> {
+    const { batchSize, maxTokens, maxRequestBytes } =
+      getConfigManager().getBatchProcessingConfig();
+    const batches: PlannedBatch<T>[] = [];
+    let current: PlannedBatch<T> | null = null;
+
+    for (const item of items) {
+      const { label, frames, tokens, bytes } = await estimateItemCost(item);
+
+      const fits =
+        current !== null &&
+        current.frames + frames <= batchSize &&
+        current.tokens + tokens <= maxTokens &&
+        current.bytes + bytes <= maxRequestBytes;
+
+      if (!current || !fits) {
+        current = {
+          items: [],
+          frames: 0,
+          tokens: BatchPlanner.PROMPT_TOKENS,
+          bytes: 0,
+        };
+        batches.push(current);
+      }
+
+      if (
+        current.items.length === 0 &&
+        (frames > batchSize ||
+          current.tokens + tokens > maxTokens ||
+          bytes > maxRequestBytes)
+      ) {
+        progressLogger.warn(
+          `单个文件开销超出批次限制，将单独发送: ${label} (${frames} 帧, ${tokens} tokens, ${FileUtils.formatFileSize(bytes)})`,
+        );
+      }
+
+      current.items.push(item);
+      current.frames += frames;
+      current.tokens += tokens;
+      current.bytes += bytes;
+    }
+
+    this.logPlan(batches);
+    return batches;
+  }
+
+  /**
+   * 在详细模式下输出批次规划
+   * @param batches - 批次列表
+   */
+  private logPlan<T>(batches: PlannedBatch<T>[]): void {
+    const config = getConfigManager();
+    if (!config.isVerboseMode()) {
+      return;
+    }
+
+    const { batchSize, maxTokens, maxRequestBytes } =
+      config.getBatchProcessingConfig();
+
+    progressLogger.info(
+      `批次规划: ${batches.length} 个批次（限制: 每批 ${batchSize} 帧, ${maxTokens} tokens, ${FileUtils.formatFileSize(maxRequestBytes)}）`,
+    );
+    batches.forEach((batch, index) => {
+      progressLogger.info(
+        `  批次 ${index + 1}: ${batch.items.length} 个文件, ${batch.frames} 帧, 约 ${batch.tokens} tokens, 约 ${FileUtils.formatFileSize(batch.bytes)}`,
+      );
+    });
+  }
+}
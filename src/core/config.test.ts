@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ConfigManager } from "@/core/config";
+
+/**
+ * 读取配置文件中保存的内容
+ * @param manager - 配置管理器
+ * @returns 配置文件内容
+ */
+function readStoredConfig(manager: ConfigManager) {
+  return JSON.parse(readFileSync(manager.getConfigPath(), "utf-8"));
+}
+
+describe("ConfigManager 环境变量", () => {
+  beforeEach(() => {
+    new ConfigManager().resetConfig();
+    process.env.FRAME_SENSE_OPENAI_API_KEY = "env-key";
+    process.env.FRAME_SENSE_API_BASE_URL = "http://env.example/v1";
+    process.env.FRAME_SENSE_BATCH_SIZE = "7";
+  });
+
+  afterEach(() => {
+    delete process.env.FRAME_SENSE_OPENAI_API_KEY;
+    delete process.env.FRAME_SENSE_API_BASE_URL;
+    delete process.env.FRAME_SENSE_BATCH_SIZE;
+  });
+
+  it("环境变量优先于配置文件，但修改配置时不写入配置文件", () => {
+    const manager = new ConfigManager();
+
+    manager.setOpenAIConfig({ model: "gpt-4o-mini" });
+    manager.setBatchProcessingConfig({ parallel: true });
+
+    const openai = manager.getOpenAIConfig();
+    assert.equal(openai.apiKey, "env-key");
+    assert.equal(openai.baseUrl, "http://env.example/v1");
+    assert.equal(openai.model, "gpt-4o-mini");
+    assert.equal(manager.getBatchProcessingConfig().batchSize, 7);
+
+    const stored = readStoredConfig(manager);
+    assert.equal(stored.openai.model, "gpt-4o-mini");
+    assert.notEqual(stored.openai.apiKey, "env-key");
+    assert.notEqual(stored.openai.baseUrl, "http://env.example/v1");
+    assert.notEqual(stored.batchProcessing.batchSize, 7);
+    assert.equal(stored.batchProcessing.parallel, true);
+  });
+
+  it("修改配置后环境变量仍然生效", () => {
+    const manager = new ConfigManager();
+
+    manager.setOpenAIConfig({ apiKey: "saved-key" });
+
+    assert.equal(manager.getOpenAIConfig().apiKey, "env-key");
+    assert.equal(readStoredConfig(manager).openai.apiKey, "saved-key");
+  });
+});
+
+describe("ConfigManager 本次运行的覆盖", () => {
+  beforeEach(() => {
+    new ConfigManager().resetConfig();
+  });
+
+  it("保存其他设置时不写入本次运行的覆盖", () => {
+    const manager = new ConfigManager();
+
+    manager.overrideFrameSampling({ frameCount: 9 });
+    manager.setFrameSamplingConfig({ qualityCheck: false });
+
+    const stored = readStoredConfig(manager);
+    assert.equal(stored.frameSampling.frameCount, 5);
+    assert.equal(stored.frameSampling.qualityCheck, false);
+  });
+});
+
+describe("ConfigManager 切换提供商", () => {
+  beforeEach(() => {
+    new ConfigManager().resetConfig();
+  });
+
+  it("未手动设置批次大小时使用提供商的默认值", () => {
+    const manager = new ConfigManager();
+
+    manager.setProvider("ollama");
+    assert.equal(manager.getBatchProcessingConfig().batchSize, 1);
+    assert.equal(readStoredConfig(manager).batchProcessing.batchSize, 1);
+
+    manager.setProvider("gemini");
+    assert.equal(manager.getBatchProcessingConfig().batchSize, 40);
+  });
+
+  it("保留手动设置的批次大小", () => {
+    const manager = new ConfigManager();
+
+    manager.setBatchProcessingConfig({ batchSize: 8 });
+    manager.setProvider("ollama");
+
+    assert.equal(manager.getBatchProcessingConfig().batchSize, 8);
+  });
+
+  it("通过环境变量切换提供商时同样使用其默认批次大小", () => {
+    process.env.FRAME_SENSE_PROVIDER = "ollama";
+    try {
+      const manager = new ConfigManager();
+      assert.equal(manager.getBatchProcessingConfig().batchSize, 1);
+      assert.equal(readStoredConfig(manager).batchProcessing.batchSize, 40);
+    } finally {
+      delete process.env.FRAME_SENSE_PROVIDER;
+    }
+  });
+});
+
+describe("ConfigManager.parseFrameCountRules", () => {
+  it("按时长从短到长排列，只写帧数的规则排在最后", () => {
+    assert.deepEqual(ConfigManager.parseFrameCountRules(" 8, 120:3 ,10:1"), [
+      { maxDuration: 10, frames: 1 },
+      { maxDuration: 120, frames: 3 },
+      { frames: 8 },
+    ]);
+  });
+
+  it("拒绝段数不是 1 或 2 的规则", () => {
+    assert.throws(
+      () => ConfigManager.parseFrameCountRules("10:2:3"),
+      /帧数规则无效: 10:2:3/,
+    );
+  });
+
+  it("拒绝非正整数帧数", () => {
+    for (const value of ["10:0", "10:-1", "10:2.5", "1e1", "10:", "abc"]) {
+      assert.throws(
+        () => ConfigManager.parseFrameCountRules(value),
+        /帧数规则无效/,
+        value,
+      );
+    }
+  });
+
+  it("拒绝无效的最大时长", () => {
+    for (const value of [":3", "0:3", "-5:3", "abc:3"]) {
+      assert.throws(
+        () => ConfigManager.parseFrameCountRules(value),
+        /帧数规则无效/,
+        value,
+      );
+    }
+  });
+});
+
+describe("ConfigManager.parseStartOffset", () => {
+  it("解析秒数和百分比", () => {
+    assert.equal(ConfigManager.parseStartOffset("2.5"), 2.5);
+    assert.equal(ConfigManager.parseStartOffset(" 10% "), "10%");
+  });
+
+  it("拒绝无效格式和不小于 100% 的百分比", () => {
+    assert.throws(() => ConfigManager.parseStartOffset("-1"), /格式无效/);
+    assert.throws(() => ConfigManager.parseStartOffset("abc"), /格式无效/);
+    assert.throws(() => ConfigManager.parseStartOffset("100%"), /必须小于/);
+  });
+});
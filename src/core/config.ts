@@ -8,19 +8,60 @@ import type inquirer from "inquirer";
 import type {
   AppConfig,
   BatchProcessOptions,
+  FallbackModel,
+  FilenameCase,
+  FilenameStyleConfig,
   FilenameTemplateConfig,
+  FrameCountRule,
   FrameExtractionStrategy,
+  FrameSamplingConfig,
+  FrameStartOffset,
   ImageProcessOptions,
+  ModelPricing,
+  OllamaProviderOptions,
+  OpenAIProviderOptions,
   PromptConfig,
+  PromptContextConfig,
+  PromptContextField,
+  PromptLanguage,
+  PromptProfile,
+  RetryConfig,
+  VisionProviderName,
 } from "@/types";
+import { FileContext } from "@/utils/file-context";
 import { FileUtils } from "@/utils/file-utils";
 import { safePrompt } from "@/utils/prompt-utils";
 
 export class ConfigManager {
+  /** 支持的视觉模型提供商 */
+  public static readonly SUPPORTED_PROVIDERS: VisionProviderName[] = [
+    "gemini",
+    "openai",
+    "ollama",
+  ];
+  /** 各提供商的默认批次大小，本地小模型一次只能可靠地分析 1 张图像 */
+  public static readonly DEFAULT_BATCH_SIZES: Record<
+    VisionProviderName,
+    number
+  > = {
+    gemini: 40,
+    openai: 40,
+    ollama: 1,
+  };
+  /** 支持的生成语言 */
+  public static readonly SUPPORTED_LANGUAGES: PromptLanguage[] = [
+    "zh-CN",
+    "en",
+    "ja",
+  ];
   /** 配置存储实例 */
   private conf: Conf<AppConfig>;
-  /** 当前配置 */
+  /** 已保存的配置（默认值和配置文件），修改配置时以此为基础，避免写入环境变量和本次运行的覆盖 */
+  private storedConfig: AppConfig;
+  /** 当前配置（已保存的配置叠加环境变量和本次运行的覆盖） */
   private currentConfig: AppConfig;
+  /** 本次运行使用的提示词配置档（含命令行覆盖的设置） */
+  private activePromptProfile: PromptProfile = {};
 
   constructor() {
     // 初始化配置存储
@@ -31,7 +72,8 @@ export class ConfigManager {
     });
 
     // 加载当前配置
-    this.currentConfig = this.loadConfig();
+    this.storedConfig = this.loadStoredConfig();
+    this.currentConfig = this.applyEnvironment(this.storedConfig);
   }
 
   /**
@@ -40,8 +82,18 @@ export class ConfigManager {
    */
   private getDefaultConfig(): AppConfig {
     return {
+      provider: "gemini",
       api: "",
       defaultModel: "gemini-2.5-flash",
+      openai: {
+        baseUrl: "https://api.openai.com/v1",
+        apiKey: "",
+        model: "gpt-4o-mini",
+      },
+      ollama: {
+        baseUrl: "http://localhost:11434",
+        model: "llava",
+      },
       imageProcessing: {
         quality: 75,
         maxWidth: 1280,
@@ -50,37 +102,116 @@ export class ConfigManager {
         format: "jpeg",
       },
       batchProcessing: {
-        batchSize: 40,
+        batchSize: ConfigManager.DEFAULT_BATCH_SIZES.gemini,
         maxTokens: 1000000,
+        maxRequestBytes: 20 * 1024 * 1024,
         parallel: false,
         maxConcurrency: 3,
       },
+      retry: {
+        maxRetries: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 30000,
+      },
+      fallbackModels: [],
+      pricing: {
+        "gemini-2.5-pro": { input: 1.25, output: 10 },
+        "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+        "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+      },
       promptConfig: {
+        language: "zh-CN",
         filenameLength: 20,
+        romanize: false,
         customTemplate: undefined,
         filenameTemplate: {
           template: undefined,
           dateSource: ["exif", "created", "modified"],
         },
       },
+      promptProfiles: {},
+      promptContext: {
+        enabled: false,
+        fields: [...FileContext.DEFAULT_FIELDS],
+      },
+      filenameStyle: { ...FileUtils.DEFAULT_FILENAME_STYLE },
       frameExtractionStrategy: "single",
+      frameSampling: {
+        frameCount: 5,
+        durationRules: [],
+        qualityCheck: true,
+        maxKeyframes: 10,
+      },
+      contactSheet: false,
       tempDirectory: FileUtils.getTempDir(),
     };
   }
 
   /**
    * 加载配置
-   * 优先级：环境变量 > 配置文件 > 默认值
+   * 加载已保存的配置（配置文件 > 默认值）
    * @returns 配置对象
    */
-  private loadConfig(): AppConfig {
-    const config = { ...this.getDefaultConfig() };
+  private loadStoredConfig(): AppConfig {
+    const defaultConfig = this.getDefaultConfig();
+    const config = { ...defaultConfig };
 
     // 从配置文件加载
     const storedConfig = this.conf.store;
     Object.assign(config, storedConfig);
 
-    // 从环境变量加载
+    // 嵌套配置按字段合并，兼容旧版本配置文件
+    config.openai = { ...defaultConfig.openai, ...storedConfig.openai };
+    config.ollama = { ...defaultConfig.ollama, ...storedConfig.ollama };
+    config.retry = { ...defaultConfig.retry, ...storedConfig.retry };
+    config.pricing = { ...defaultConfig.pricing, ...storedConfig.pricing };
+    config.batchProcessing = {
+      ...defaultConfig.batchProcessing,
+      ...storedConfig.batchProcessing,
+    };
+    config.promptConfig = {
+      ...defaultConfig.promptConfig,
+      ...storedConfig.promptConfig,
+    };
+    config.filenameStyle = {
+      ...defaultConfig.filenameStyle,
+      ...storedConfig.filenameStyle,
+    };
+    config.promptContext = {
+      ...defaultConfig.promptContext,
+      ...storedConfig.promptContext,
+    };
+    config.frameSampling = {
+      ...defaultConfig.frameSampling,
+      ...storedConfig.frameSampling,
+    };
+
+    return config;
+  }
+
+  /**
+   * 在已保存的配置上叠加环境变量
+   * 优先级：环境变量 > 配置文件 > 默认值；返回新的对象，环境变量不会写入配置文件
+   * @param storedConfig - 已保存的配置
+   * @returns 生效的配置
+   */
+  private applyEnvironment(storedConfig: AppConfig): AppConfig {
+    const config: AppConfig = {
+      ...storedConfig,
+      openai: { ...storedConfig.openai },
+      ollama: { ...storedConfig.ollama },
+      batchProcessing: { ...storedConfig.batchProcessing },
+    };
+
+    if (process.env.FRAME_SENSE_PROVIDER) {
+      config.provider = process.env.FRAME_SENSE_PROVIDER as VisionProviderName;
+      config.batchProcessing.batchSize = ConfigManager.getProviderBatchSize(
+        storedConfig.batchProcessing.batchSize,
+        storedConfig.provider,
+        config.provider,
+      );
+    }
+
     if (process.env.FRAME_SENSE_API_KEY) {
       config.api = process.env.FRAME_SENSE_API_KEY;
     }
@@ -89,6 +220,26 @@ export class ConfigManager {
       config.defaultModel = process.env.FRAME_SENSE_MODEL;
     }
 
+    if (process.env.FRAME_SENSE_API_BASE_URL) {
+      config.openai.baseUrl = process.env.FRAME_SENSE_API_BASE_URL;
+    }
+
+    if (process.env.FRAME_SENSE_OPENAI_API_KEY) {
+      config.openai.apiKey = process.env.FRAME_SENSE_OPENAI_API_KEY;
+    }
+
+    if (process.env.FRAME_SENSE_OPENAI_MODEL) {
+      config.openai.model = process.env.FRAME_SENSE_OPENAI_MODEL;
+    }
+
+    if (process.env.FRAME_SENSE_OLLAMA_BASE_URL) {
+      config.ollama.baseUrl = process.env.FRAME_SENSE_OLLAMA_BASE_URL;
+    }
+
+    if (process.env.FRAME_SENSE_OLLAMA_MODEL) {
+      config.ollama.model = process.env.FRAME_SENSE_OLLAMA_MODEL;
+    }
+
     if (process.env.FRAME_SENSE_BATCH_SIZE) {
       const batchSize = parseInt(process.env.FRAME_SENSE_BATCH_SIZE, 10);
       if (!Number.isNaN(batchSize) && batchSize > 0) {
@@ -118,8 +269,10 @@ export class ConfigManager {
    * @param value - 配置值
    */
   public set<K extends keyof AppConfig>(key: K, value: AppConfig[K]): void {
-    this.currentConfig[key] = value;
+    this.storedConfig[key] = value;
     this.conf.set(key, value);
+    // 环境变量仍然优先于刚保存的值
+    this.currentConfig[key] = this.applyEnvironment(this.storedConfig)[key];
   }
 
   /**
@@ -135,11 +288,8 @@ export class ConfigManager {
    * @param config - 配置对象
    */
   public setConfig(config: Partial<AppConfig>): void {
-    Object.assign(this.currentConfig, config);
-
-    // 更新配置文件
     for (const [key, value] of Object.entries(config)) {
-      this.conf.set(key as keyof AppConfig, value);
+      this.set(key as keyof AppConfig, value);
     }
   }
 
@@ -147,7 +297,8 @@ export class ConfigManager {
    * 重置配置到默认值
    */
   public resetConfig(): void {
-    this.currentConfig = this.getDefaultConfig();
+    this.storedConfig = this.getDefaultConfig();
+    this.currentConfig = this.applyEnvironment(this.storedConfig);
     this.conf.clear();
   }
 
@@ -158,16 +309,58 @@ export class ConfigManager {
   public validateConfig(): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    // 检查 API Key
-    if (!this.currentConfig.api || this.currentConfig.api.trim() === "") {
+    // 检查提供商
+    if (
+      !ConfigManager.SUPPORTED_PROVIDERS.includes(this.currentConfig.provider)
+    ) {
+      errors.push(
+        `不支持的提供商: ${this.currentConfig.provider}，可选: ${ConfigManager.SUPPORTED_PROVIDERS.join(", ")}`,
+      );
+    }
+
+    // 检查备用模型
+    const fallbackModels = this.currentConfig.fallbackModels;
+    for (const fallback of fallbackModels) {
+      if (!ConfigManager.SUPPORTED_PROVIDERS.includes(fallback.provider)) {
+        errors.push(`备用模型的提供商不受支持: ${fallback.provider}`);
+      }
+    }
+
+    // 主提供商和备用模型用到的提供商都需要有效的连接配置
+    const providers = new Set([
+      this.currentConfig.provider,
+      ...fallbackModels.map((fallback) => fallback.provider),
+    ]);
+
+    // 检查 API Key（回放时不调用模型服务，不需要）
+    const { recordDir, replayDir } = this.currentConfig;
+    if (
+      !replayDir &&
+      providers.has("gemini") &&
+      (!this.currentConfig.api || this.currentConfig.api.trim() === "")
+    ) {
       errors.push("API Key 未配置");
     }
 
-    // 检查模型名称
+    // 检查 OpenAI 兼容接口地址
+    if (
+      providers.has("openai") &&
+      !/^https?:\/\//.test(this.currentConfig.openai.baseUrl)
+    ) {
+      errors.push("OpenAI 兼容接口的 Base URL 必须以 http:// 或 https:// 开头");
+    }
+
+    // 检查 Ollama 服务地址
     if (
-      !this.currentConfig.defaultModel ||
-      this.currentConfig.defaultModel.trim() === ""
+      providers.has("ollama") &&
+      !/^https?:\/\//.test(this.currentConfig.ollama.baseUrl)
     ) {
+      errors.push("Ollama 服务地址必须以 http:// 或 https:// 开头");
+    }
+
+    // 检查模型名称
+    const model = this.getModel();
+    if (!model || model.trim() === "") {
       errors.push("默认模型名称未配置");
     }
 
@@ -188,12 +381,74 @@ export class ConfigManager {
     if (batchConfig.maxTokens < 1) {
       errors.push("最大 Token 数量必须大于 0");
     }
+    if (batchConfig.maxRequestBytes < 1) {
+      errors.push("单次请求大小上限必须大于 0");
+    }
     if (batchConfig.maxConcurrency < 1) {
       errors.push("最大并发数必须大于 0");
     }
 
-    // 检查 Prompt 配置
-    const promptConfig = this.currentConfig.promptConfig;
+    // 检查重试配置
+    const retryConfig = this.currentConfig.retry;
+    if (
+      !Number.isInteger(retryConfig.maxRetries) ||
+      retryConfig.maxRetries < 0
+    ) {
+      errors.push("最大重试次数必须是不小于 0 的整数");
+    }
+    if (retryConfig.baseDelayMs < 0 || retryConfig.maxDelayMs < 0) {
+      errors.push("重试等待时间不能小于 0");
+    }
+
+    // 检查价格配置
+    for (const [pricedModel, pricing] of Object.entries(
+      this.currentConfig.pricing,
+    )) {
+      if (pricing.input < 0 || pricing.output < 0) {
+        errors.push(`模型 ${pricedModel} 的价格不能小于 0`);
+      }
+    }
+    const maxCost = this.currentConfig.maxCost;
+    if (maxCost !== undefined) {
+      if (!(maxCost > 0)) {
+        errors.push("费用上限必须大于 0");
+      } else {
+        if (!this.getModelPricing()) {
+          errors.push(
+            `未配置模型 ${model} 的价格，无法按费用上限控制: frame-sense config --price <输入>,<输出>`,
+          );
+        }
+        // 备用模型的用量按各自的价格计费
+        for (const fallback of this.currentConfig.fallbackModels) {
+          const fallbackModel =
+            fallback.model ?? this.getModel(fallback.provider);
+          if (!this.getModelPricing(fallbackModel)) {
+            errors.push(
+              `未配置备用模型 ${fallbackModel} 的价格，无法按费用上限控制: frame-sense config --price ${fallbackModel}=<输入>,<输出>`,
+            );
+          }
+        }
+      }
+    }
+
+    // 检查录制/回放目录
+    if (recordDir && replayDir) {
+      errors.push("--record 和 --replay 不能同时使用");
+    }
+    if (replayDir && !FileUtils.isDirectory(replayDir)) {
+      errors.push(`回放目录不存在: ${replayDir}`);
+    }
+
+    // 检查 Prompt 配置（含本次运行使用的配置档）
+    const promptConfig = this.getPromptConfig();
+    if (!ConfigManager.SUPPORTED_LANGUAGES.includes(promptConfig.language)) {
+      errors.push(
+        `不支持的语言: ${promptConfig.language}，可选: ${ConfigManager.SUPPORTED_LANGUAGES.join(", ")}`,
+      );
+    }
+    if (promptConfig.romanize && promptConfig.language !== "zh-CN") {
+      errors.push("拼音转换仅适用于中文 (zh-CN)");
+    }
     if (promptConfig.filenameLength < 1) {
       errors.push("文件名长度必须大于 0");
     }
@@ -219,6 +474,57 @@ export class ConfigManager {
       }
     }
 
+    // 检查文件信息字段
+    for (const field of this.currentConfig.promptContext.fields) {
+      if (!FileContext.FIELDS.includes(field)) {
+        errors.push(
+          `不支持的文件信息字段: ${field}，可选: ${FileContext.FIELDS.join(", ")}`,
+        );
+      }
+    }
+
+    // 检查帧采样配置（含本次运行的覆盖）
+    const frameSampling = this.currentConfig.frameSampling;
+    if (!ConfigManager.isValidFrameCount(frameSampling.frameCount)) {
+      errors.push(
+        `取帧数必须为 1 到 100 之间的整数: ${frameSampling.frameCount}`,
+      );
+    }
+    if (!ConfigManager.isValidFrameCount(frameSampling.maxKeyframes)) {
+      errors.push(
+        `关键帧上限必须为 1 到 100 之间的整数: ${frameSampling.maxKeyframes}`,
+      );
+    }
+    if (frameSampling.startOffset !== undefined) {
+      try {
+        ConfigManager.parseStartOffset(String(frameSampling.startOffset));
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+    for (const rule of frameSampling.durationRules) {
+      if (
+        !ConfigManager.isValidFrameCount(rule.frames) ||
+        (rule.maxDuration !== undefined && !(rule.maxDuration > 0))
+      ) {
+        errors.push(`帧数规则无效: ${JSON.stringify(rule)}`);
+      }
+    }
+
+    // 检查文件名风格
+    const filenameStyle = this.currentConfig.filenameStyle;
+    if (!FileUtils.FILENAME_CASES.includes(filenameStyle.case)) {
+      errors.push(
+        `不支持的文件名风格: ${filenameStyle.case}，可选: ${FileUtils.FILENAME_CASES.join(", ")}`,
+      );
+    }
+    if (
+      filenameStyle.separator !== undefined &&
+      !FileUtils.isValidSeparator(filenameStyle.separator)
+    ) {
+      errors.push(`文件名分隔符包含非法字符: ${filenameStyle.separator}`);
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -254,6 +560,241 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * 获取视觉模型提供商
+   * @returns 提供商名称
+   */
+  public getProvider(): VisionProviderName {
+    return this.currentConfig.provider;
+  }
+
+  /**
+   * 设置视觉模型提供商
+   * @param provider - 提供商名称
+   */
+  public setProvider(provider: VisionProviderName): void {
+    const batchSize = ConfigManager.getProviderBatchSize(
+      this.storedConfig.batchProcessing.batchSize,
+      this.storedConfig.provider,
+      provider,
+    );
+
+    this.set("provider", provider);
+    this.setBatchProcessingConfig({ batchSize });
+  }
+
+  /**
+   * 计算切换提供商后的批次大小
+   * 批次大小仍为原提供商的默认值时视为未手动设置，改用新提供商的默认值；手动设置的值保持不变
+   * @param batchSize - 当前批次大小
+   * @param previous - 原提供商
+   * @param provider - 新提供商
+   * @returns 批次大小
+   */
+  private static getProviderBatchSize(
+    batchSize: number,
+    previous: VisionProviderName,
+    provider: VisionProviderName,
+  ): number {
+    return batchSize === ConfigManager.DEFAULT_BATCH_SIZES[previous]
+      ? (ConfigManager.DEFAULT_BATCH_SIZES[provider] ?? batchSize)
+      : batchSize;
+  }
+
+  /**
+   * 获取提供商使用的模型
+   * @param provider - 提供商名称，默认为当前提供商
+   * @returns 模型名称
+   */
+  public getModel(
+    provider: VisionProviderName = this.currentConfig.provider,
+  ): string {
+    switch (provider) {
+      case "openai":
+        return this.currentConfig.openai.model;
+      case "ollama":
+        return this.currentConfig.ollama.model;
+      default:
+        return this.currentConfig.defaultModel;
+    }
+  }
+
+  /**
+   * 设置当前提供商使用的模型
+   * @param model - 模型名称
+   */
+  public setModel(model: string): void {
+    switch (this.currentConfig.provider) {
+      case "openai":
+        this.setOpenAIConfig({ model });
+        break;
+      case "ollama":
+        this.setOllamaConfig({ model });
+        break;
+      default:
+        this.set("defaultModel", model);
+    }
+  }
+
+  /**
+   * 获取模型价格
+   * @param model - 模型名称，默认为当前提供商使用的模型
+   * @returns 模型价格，未配置时返回 undefined
+   */
+  public getModelPricing(
+    model: string = this.getModel(),
+  ): ModelPricing | undefined {
+    return this.currentConfig.pricing[model];
+  }
+
+  /**
+   * 设置模型价格
+   * @param pricing - 模型价格（美元 / 百万 tokens）
+   * @param model - 模型名称，默认为当前提供商使用的模型
+   */
+  public setModelPricing(
+    pricing: ModelPricing,
+    model: string = this.getModel(),
+  ): void {
+    this.set("pricing", {
+      ...this.storedConfig.pricing,
+      [model]: pricing,
+    });
+  }
+
+  /**
+   * 获取备用模型
+   * @returns 备用模型列表，按尝试顺序排列
+   */
+  public getFallbackModels(): FallbackModel[] {
+    return [...this.currentConfig.fallbackModels];
+  }
+
+  /**
+   * 解析备用模型
+   * 格式为 <提供商>:<模型>、<提供商>（使用其配置中的模型）或 <模型>（使用默认提供商）
+   * @param value - 备用模型文本
+   * @param defaultProvider - 未指定提供商时使用的提供商
+   * @returns 备用模型
+   */
+  public static parseFallbackModel(
+    value: string,
+    defaultProvider: VisionProviderName,
+  ): FallbackModel {
+    // Ollama 的模型名称本身可能含有冒号（如 llava:13b），只在前缀为提供商名称时拆分
+    const separatorIndex = value.indexOf(":");
+    const prefix = value.slice(0, separatorIndex) as VisionProviderName;
+    if (
+      separatorIndex > 0 &&
+      ConfigManager.SUPPORTED_PROVIDERS.includes(prefix)
+    ) {
+      const model = value.slice(separatorIndex + 1).trim();
+      return model ? { provider: prefix, model } : { provider: prefix };
+    }
+
+    if (
+      ConfigManager.SUPPORTED_PROVIDERS.includes(value as VisionProviderName)
+    ) {
+      return { provider: value as VisionProviderName };
+    }
+
+    return { provider: defaultProvider, model: value };
+  }
+
+  /**
+   * 设置备用模型
+   * @param fallbackModels - 备用模型列表，按尝试顺序排列
+   */
+  public setFallbackModels(fallbackModels: FallbackModel[]): void {
+    this.set("fallbackModels", fallbackModels);
+  }
+
+  /**
+   * 获取本次运行的费用上限
+   * @returns 费用上限（美元），未设置时返回 undefined
+   */
+  public getMaxCost(): number | undefined {
+    return this.currentConfig.maxCost;
+  }
+
+  /**
+   * 设置本次运行的费用上限（仅对本次运行生效）
+   * @param maxCost - 费用上限（美元）
+   */
+  public setMaxCost(maxCost: number): void {
+    this.currentConfig.maxCost = maxCost;
+  }
+
+  /**
+   * 获取录制提供商响应的目录
+   * @returns 录制目录，未启用录制时返回 undefined
+   */
+  public getRecordDirectory(): string | undefined {
+    return this.currentConfig.recordDir;
+  }
+
+  /**
+   * 设置录制提供商响应的目录（仅对本次运行生效）
+   * @param directory - 录制目录
+   */
+  public setRecordDirectory(directory: string): void {
+    this.currentConfig.recordDir = directory;
+  }
+
+  /**
+   * 获取回放提供商响应的目录
+   * @returns 回放目录，未启用回放时返回 undefined
+   */
+  public getReplayDirectory(): string | undefined {
+    return this.currentConfig.replayDir;
+  }
+
+  /**
+   * 设置回放提供商响应的目录（仅对本次运行生效）
+   * @param directory - 回放目录
+   */
+  public setReplayDirectory(directory: string): void {
+    this.currentConfig.replayDir = directory;
+  }
+
+  /**
+   * 获取 OpenAI 兼容提供商配置
+   * @returns OpenAI 兼容提供商配置
+   */
+  public getOpenAIConfig(): OpenAIProviderOptions {
+    return { ...this.currentConfig.openai };
+  }
+
+  /**
+   * 设置 OpenAI 兼容提供商配置
+   * @param config - OpenAI 兼容提供商配置
+   */
+  public setOpenAIConfig(config: Partial<OpenAIProviderOptions>): void {
+    this.set("openai", {
+      ...this.storedConfig.openai,
+      ...config,
+    });
+  }
+
+  /**
+   * 获取 Ollama 提供商配置
+   * @returns Ollama 提供商配置
+   */
+  public getOllamaConfig(): OllamaProviderOptions {
+    return { ...this.currentConfig.ollama };
+  }
+
+  /**
+   * 设置 Ollama 提供商配置
+   * @param config - Ollama 提供商配置
+   */
+  public setOllamaConfig(config: Partial<OllamaProviderOptions>): void {
+    this.set("ollama", {
+      ...this.storedConfig.ollama,
+      ...config,
+    });
+  }
+
   /**
    * 获取 API Key
    * @returns API Key
@@ -284,7 +825,7 @@ export class ConfigManager {
    */
   public setImageProcessingConfig(config: Partial<ImageProcessOptions>): void {
     this.set("imageProcessing", {
-      ...this.currentConfig.imageProcessing,
+      ...this.storedConfig.imageProcessing,
       ...config,
     });
   }
@@ -303,7 +844,35 @@ export class ConfigManager {
    */
   public setBatchProcessingConfig(config: Partial<BatchProcessOptions>): void {
     this.set("batchProcessing", {
-      ...this.currentConfig.batchProcessing,
+      ...this.storedConfig.batchProcessing,
+      ...config,
+    });
+  }
+
+  /**
+   * 获取同时处理的批次数
+   * @returns 启用并行处理时为最大并发数，否则为 1
+   */
+  public getBatchConcurrency(): number {
+    const { parallel, maxConcurrency } = this.currentConfig.batchProcessing;
+    return parallel ? maxConcurrency : 1;
+  }
+
+  /**
+   * 获取请求重试配置
+   * @returns 请求重试配置
+   */
+  public getRetryConfig(): RetryConfig {
+    return { ...this.currentConfig.retry };
+  }
+
+  /**
+   * 设置请求重试配置
+   * @param config - 请求重试配置
+   */
+  public setRetryConfig(config: Partial<RetryConfig>): void {
+    this.set("retry", {
+      ...this.storedConfig.retry,
       ...config,
     });
   }
@@ -324,6 +893,138 @@ export class ConfigManager {
     this.set("frameExtractionStrategy", strategy);
   }
 
+  /**
+   * 获取帧采样配置
+   * @returns 帧采样配置
+   */
+  public getFrameSamplingConfig(): FrameSamplingConfig {
+    return {
+      ...this.currentConfig.frameSampling,
+      durationRules: [...this.currentConfig.frameSampling.durationRules],
+    };
+  }
+
+  /**
+   * 设置帧采样配置
+   * @param config - 帧采样配置
+   */
+  public setFrameSamplingConfig(config: Partial<FrameSamplingConfig>): void {
+    this.set("frameSampling", {
+      ...this.storedConfig.frameSampling,
+      ...config,
+    });
+  }
+
+  /**
+   * 仅对本次运行覆盖帧采样配置，不写入配置文件
+   * @param config - 要覆盖的配置项
+   */
+  public overrideFrameSampling(config: Partial<FrameSamplingConfig>): void {
+    this.currentConfig.frameSampling = {
+      ...this.currentConfig.frameSampling,
+      ...config,
+    };
+  }
+
+  /**
+   * 是否把视频的各帧和多张小图拼接为网格图发送
+   * @returns 是否启用拼接图
+   */
+  public isContactSheetEnabled(): boolean {
+    return this.currentConfig.contactSheet;
+  }
+
+  /**
+   * 设置是否启用拼接图
+   * @param enabled - 是否启用拼接图
+   */
+  public setContactSheetEnabled(enabled: boolean): void {
+    this.set("contactSheet", enabled);
+  }
+
+  /**
+   * 仅对本次运行启用拼接图，不写入配置文件
+   */
+  public overrideContactSheet(): void {
+    this.currentConfig.contactSheet = true;
+  }
+
+  /**
+   * 检查取帧数是否有效
+   * @param count - 取帧数
+   * @returns 是否有效
+   */
+  private static isValidFrameCount(count: number): boolean {
+    return Number.isInteger(count) && count >= 1 && count <= 100;
+  }
+
+  /**
+   * 解析取帧起始偏移
+   * 格式为秒数（如 2.5）或视频时长百分比（如 10%）
+   * @param value - 偏移文本
+   * @returns 起始偏移
+   */
+  public static parseStartOffset(value: string): FrameStartOffset {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)(%?)$/);
+    if (!match) {
+      throw new Error(
+        `起始偏移格式无效: ${value}，应为秒数（如 2）或百分比（如 10%）`,
+      );
+    }
+
+    const amount = Number(match[1]);
+    if (!match[2]) {
+      return amount;
+    }
+    if (amount >= 100) {
+      throw new Error(`起始偏移百分比必须小于 100%: ${value}`);
+    }
+    return `${amount}%`;
+  }
+
+  /**
+   * 解析按时长调整取帧数的规则
+   * 格式为逗号分隔的 <最大时长秒数>:<帧数>，最后一项可以只写帧数表示更长的视频，
+   * 如 10:1,120:3,8 表示 10 秒以内取 1 帧，2 分钟以内取 3 帧，更长取 8 帧
+   * @param value - 规则文本
+   * @returns 按时长从短到长排列的规则
+   */
+  public static parseFrameCountRules(value: string): FrameCountRule[] {
+    const rules = value
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part): FrameCountRule => {
+        const segments = part.split(":").map((text) => text.trim());
+        const [first, second] = segments;
+        const frameText = second ?? first;
+        const rule: FrameCountRule =
+          second === undefined
+            ? { frames: Number(first) }
+            : { maxDuration: Number(first), frames: Number(second) };
+
+        // 帧数只接受正整数写法，避免 1e1、0x3 等被 Number 解析
+        if (
+          segments.length > 2 ||
+          !/^\d+$/.test(frameText) ||
+          !ConfigManager.isValidFrameCount(rule.frames) ||
+          (rule.maxDuration !== undefined &&
+            !(/^\d+(?:\.\d+)?$/.test(first) && rule.maxDuration > 0))
+        ) {
+          throw new Error(
+            `帧数规则无效: ${part}，应为 <最大时长秒数>:<帧数> 或 <帧数>（如 10:1,120:3,8）`,
+          );
+        }
+        return rule;
+      });
+
+    return rules.sort(
+      (a, b) =>
+        (a.maxDuration ?? Number.POSITIVE_INFINITY) -
+        (b.maxDuration ?? Number.POSITIVE_INFINITY),
+    );
+  }
+
   /**
    * 是否启用详细输出和调试模式
    * @returns 是否启用详细输出和调试模式
@@ -340,6 +1041,52 @@ export class ConfigManager {
     this.currentConfig.verbose = verbose;
   }
 
+  /**
+   * 是否启用结果缓存
+   * @returns 是否启用结果缓存
+   */
+  public isCacheEnabled(): boolean {
+    return !this.currentConfig.cacheDisabled;
+  }
+
+  /**
+   * 设置是否启用结果缓存（仅对本次运行生效）
+   * @param enabled - 是否启用结果缓存
+   */
+  public setCacheEnabled(enabled: boolean): void {
+    this.currentConfig.cacheDisabled = !enabled;
+  }
+
+  /**
+   * 获取文件名风格
+   * @returns 文件名风格
+   */
+  public getFilenameStyle(): FilenameStyleConfig {
+    return { ...this.currentConfig.filenameStyle };
+  }
+
+  /**
+   * 设置文件名风格
+   * @param style - 文件名风格
+   */
+  public setFilenameStyle(style: Partial<FilenameStyleConfig>): void {
+    this.set("filenameStyle", {
+      ...this.storedConfig.filenameStyle,
+      ...style,
+    });
+  }
+
+  /**
+   * 覆盖文件名风格（仅对本次运行生效）
+   * @param style - 文件名风格
+   */
+  public overrideFilenameStyle(style: Partial<FilenameStyleConfig>): void {
+    this.currentConfig.filenameStyle = {
+      ...this.currentConfig.filenameStyle,
+      ...style,
+    };
+  }
+
   /**
    * 获取临时目录
    * @returns 临时目录路径
@@ -357,11 +1104,34 @@ export class ConfigManager {
   }
 
   /**
-   * 获取 Prompt 配置
+   * 获取 Prompt 配置，使用配置档时其中的设置覆盖已保存的配置
    * @returns Prompt 配置
    */
   public getPromptConfig(): PromptConfig {
-    return { ...this.currentConfig.promptConfig };
+    const promptConfig = { ...this.currentConfig.promptConfig };
+    const profile = this.activePromptProfile;
+
+    if (profile.customTemplate !== undefined) {
+      promptConfig.customTemplate = profile.customTemplate;
+    }
+    if (profile.filenameLength !== undefined) {
+      promptConfig.filenameLength = profile.filenameLength;
+    }
+    if (profile.language !== undefined) {
+      promptConfig.language = profile.language;
+      // 拼音转换仅适用于中文，配置档切换到其他语言时不转换
+      promptConfig.romanize =
+        promptConfig.romanize && profile.language === "zh-CN";
+    }
+    if (profile.filenameTemplate !== undefined) {
+      promptConfig.filenameTemplate = {
+        dateSource: ["exif", "created", "modified"],
+        ...promptConfig.filenameTemplate,
+        template: profile.filenameTemplate,
+      };
+    }
+
+    return promptConfig;
   }
 
   /**
@@ -376,7 +1146,7 @@ export class ConfigManager {
     }
 
     this.set("promptConfig", {
-      ...this.currentConfig.promptConfig,
+      ...this.storedConfig.promptConfig,
       ...updatedConfig,
     });
   }
@@ -385,8 +1155,11 @@ export class ConfigManager {
    * 重置 Prompt 配置到默认值
    */
   public resetPromptConfig(): void {
+    const defaultPromptConfig = this.getDefaultConfig().promptConfig;
     this.set("promptConfig", {
-      filenameLength: this.getDefaultConfig().promptConfig.filenameLength,
+      language: defaultPromptConfig.language,
+      filenameLength: defaultPromptConfig.filenameLength,
+      romanize: defaultPromptConfig.romanize,
       customTemplate: undefined,
       filenameTemplate: {
         template: undefined,
@@ -418,7 +1191,8 @@ export class ConfigManager {
   public setFilenameTemplateConfig(
     config: Partial<FilenameTemplateConfig>,
   ): void {
-    const currentPromptConfig = this.getPromptConfig();
+    // 只修改已保存的配置，不写入配置档中的设置
+    const currentPromptConfig = this.storedConfig.promptConfig;
     const defaultConfig = this.getDefaultConfig();
     const currentTemplateConfig = currentPromptConfig.filenameTemplate ||
       defaultConfig.promptConfig.filenameTemplate || {
@@ -435,6 +1209,89 @@ export class ConfigManager {
     });
   }
 
+  /**
+   * 获取文件信息注入配置
+   * @returns 文件信息注入配置
+   */
+  public getPromptContextConfig(): PromptContextConfig {
+    return {
+      ...this.currentConfig.promptContext,
+      fields: [...this.currentConfig.promptContext.fields],
+    };
+  }
+
+  /**
+   * 设置文件信息注入配置
+   * @param config - 文件信息注入配置
+   */
+  public setPromptContextConfig(config: Partial<PromptContextConfig>): void {
+    this.set("promptContext", {
+      ...this.storedConfig.promptContext,
+      ...config,
+    });
+  }
+
+  /**
+   * 获取所有提示词配置档
+   * @returns 配置档（按名称索引）
+   */
+  public getPromptProfiles(): Record<string, PromptProfile> {
+    return { ...this.currentConfig.promptProfiles };
+  }
+
+  /**
+   * 添加或更新提示词配置档
+   * @param name - 配置档名称
+   * @param profile - 配置档
+   */
+  public setPromptProfile(name: string, profile: PromptProfile): void {
+    this.set("promptProfiles", {
+      ...this.storedConfig.promptProfiles,
+      [name]: profile,
+    });
+  }
+
+  /**
+   * 删除提示词配置档
+   * @param name - 配置档名称
+   * @returns 是否存在并已删除
+   */
+  public removePromptProfile(name: string): boolean {
+    if (!(name in this.storedConfig.promptProfiles)) {
+      return false;
+    }
+
+    const { [name]: _removed, ...profiles } = this.storedConfig.promptProfiles;
+    this.set("promptProfiles", profiles);
+    return true;
+  }
+
+  /**
+   * 本次运行使用提示词配置档（仅对本次运行生效，不修改已保存的配置）
+   * @param name - 配置档名称
+   * @param overrides - 覆盖配置档的设置（如命令行指定的文件名模板）
+   */
+  public usePromptProfile(name: string, overrides: PromptProfile = {}): void {
+    const profile = this.currentConfig.promptProfiles[name];
+    if (!profile) {
+      const names = Object.keys(this.currentConfig.promptProfiles);
+      throw new Error(
+        `提示词配置档不存在: ${name}${names.length > 0 ? `，可选: ${names.join(", ")}` : "，请先使用 frame-sense config profile add 添加"}`,
+      );
+    }
+
+    this.currentConfig.promptProfile = name;
+    this.activePromptProfile = { ...profile, ...overrides };
+  }
+
+  /**
+   * 获取本次运行使用的提示词配置档名称
+   * @returns 配置档名称，未使用时返回 undefined
+   */
+  public getActivePromptProfile(): string | undefined {
+    return this.currentConfig.promptProfile;
+  }
+
   /**
    * 检查是否启用了文件名模板
    * @returns 是否启用了文件名模板
@@ -466,10 +1323,27 @@ export function getConfigManager(): ConfigManager {
  */
 export async function interactiveConfig(options: {
   /**  */
+  provider?: VisionProviderName;
   api?: string;
+  model?: string;
+  baseUrl?: string;
   batchSize?: number;
+  parallel?: boolean;
+  maxConcurrency?: number;
+  maxRetries?: number;
+  fallbackModels?: FallbackModel[];
+  price?: ModelPricing;
+  priceModel?: string;
   verbose?: boolean;
+  language?: PromptLanguage;
+  romanize?: boolean;
+  context?: boolean;
+  contextFields?: PromptContextField[];
+  frameSampling?: Partial<FrameSamplingConfig>;
+  contactSheet?: boolean;
   filenameLength?: number;
+  filenameCase?: FilenameCase;
+  separator?: string;
   customPrompt?: string;
   resetPrompt?: boolean;
   template?: string;
@@ -478,9 +1352,32 @@ export async function interactiveConfig(options: {
   const manager = getConfigManager();
 
   try {
-    // 设置 API Key
+    // 设置提供商
+    if (options.provider) {
+      manager.setProvider(options.provider);
+    }
+
+    // 设置当前提供商的 API Key
     if (options.api) {
-      manager.setApiKey(options.api);
+      if (manager.getProvider() === "openai") {
+        manager.setOpenAIConfig({ apiKey: options.api });
+      } else {
+        manager.setApiKey(options.api);
+      }
+    }
+
+    // 设置当前提供商的模型
+    if (options.model) {
+      manager.setModel(options.model);
+    }
+
+    // 设置当前提供商的服务地址
+    if (options.baseUrl) {
+      if (manager.getProvider() === "ollama") {
+        manager.setOllamaConfig({ baseUrl: options.baseUrl });
+      } else {
+        manager.setOpenAIConfig({ baseUrl: options.baseUrl });
+      }
     }
 
     // 设置批量处理大小
@@ -488,6 +1385,32 @@ export async function interactiveConfig(options: {
       manager.setBatchProcessingConfig({ batchSize: options.batchSize });
     }
 
+    // 设置并行处理
+    if (options.parallel !== undefined) {
+      manager.setBatchProcessingConfig({ parallel: options.parallel });
+    }
+
+    if (options.maxConcurrency !== undefined) {
+      manager.setBatchProcessingConfig({
+        maxConcurrency: options.maxConcurrency,
+      });
+    }
+
+    // 设置最大重试次数
+    if (options.maxRetries !== undefined) {
+      manager.setRetryConfig({ maxRetries: options.maxRetries });
+    }
+
+    // 设置备用模型
+    if (options.fallbackModels) {
+      manager.setFallbackModels(options.fallbackModels);
+    }
+
+    // 设置模型的价格，未指定模型时为当前模型
+    if (options.price) {
+      manager.setModelPricing(options.price, options.priceModel);
+    }
+
     // 设置详细输出和调试模式
     if (options.verbose !== undefined) {
       manager.setVerboseMode(options.verbose);
@@ -499,6 +1422,32 @@ export async function interactiveConfig(options: {
     }
 
     // 设置 Prompt 配置
+    if (options.language !== undefined) {
+      manager.setPromptConfig({ language: options.language });
+    }
+
+    if (options.romanize !== undefined) {
+      manager.setPromptConfig({ romanize: options.romanize });
+    }
+
+    // 设置文件信息注入
+    if (options.context !== undefined) {
+      manager.setPromptContextConfig({ enabled: options.context });
+    }
+
+    if (options.contextFields) {
+      manager.setPromptContextConfig({ fields: options.contextFields });
+    }
+
+    // 设置帧采样
+    if (options.frameSampling) {
+      manager.setFrameSamplingConfig(options.frameSampling);
+    }
+
+    if (options.contactSheet !== undefined) {
+      manager.setContactSheetEnabled(options.contactSheet);
+    }
+
     if (options.filenameLength !== undefined) {
       manager.setPromptConfig({ filenameLength: options.filenameLength });
     }
@@ -507,6 +1456,15 @@ export async function interactiveConfig(options: {
       manager.setPromptConfig({ customTemplate: options.customPrompt });
     }
 
+    // 设置文件名风格
+    if (options.filenameCase !== undefined) {
+      manager.setFilenameStyle({ case: options.filenameCase });
+    }
+
+    if (options.separator !== undefined) {
+      manager.setFilenameStyle({ separator: options.separator });
+    }
+
     // 设置文件名模板配置
     if (options.template !== undefined) {
       manager.setFilenameTemplateConfig({ template: options.template });
@@ -568,6 +1526,10 @@ export async function selectFrameExtractionStrategy(): Promise<FrameExtractionSt
           name: "多帧提取 (multiple) - 提取多个均匀分布的帧，分析更全面",
           value: "multiple",
         },
+        {
+          name: "场景提取 (scene) - 按镜头切换选取差异最大的若干个镜头",
+          value: "scene",
+        },
         {
           name: "关键帧提取 (keyframes) - 提取视频关键帧，质量最高",
           value: "keyframes",
@@ -579,3 +1541,42 @@ export async function selectFrameExtractionStrategy(): Promise<FrameExtractionSt
 
   return answer?.strategy || null;
 }
+
+/**
+ * 交互式选择视觉模型提供商
+ * @returns 选择的提供商
+ */
+export async function selectProvider(): Promise<VisionProviderName | null> {
+  const manager = getConfigManager();
+
+  console.log("\n🤖 视觉模型提供商选择\n");
+
+  interface ProviderAnswer {
+    provider: VisionProviderName;
+  }
+
+  const answer = await safePrompt<ProviderAnswer>([
+    {
+      type: "list",
+      name: "provider",
+      message: "请选择视觉模型提供商:",
+      choices: [
+        {
+          name: "Google Gemini (gemini) - 云端服务，需要 API Key",
+          value: "gemini",
+        },
+        {
+          name: "OpenAI 兼容接口 (openai) - vLLM、LM Studio、LiteLLM 等",
+          value: "openai",
+        },
+        {
+          name: "Ollama (ollama) - 本地运行，媒体文件不会离开本机",
+          value: "ollama",
+        },
+      ],
+      default: manager.getProvider(),
+    },
+  ] as unknown as Parameters<typeof inquirer.prompt>[0]);
+
+  return answer?.provider || null;
+}
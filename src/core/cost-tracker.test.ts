@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { getConfigManager } from "@/core/config";
+import { CostTracker } from "@/core/cost-tracker";
+
+describe("CostTracker", () => {
+  beforeEach(() => {
+    const config = getConfigManager();
+    config.resetConfig();
+    // 每百万输入 token 1 美元，输出 token 免费，便于按 token 数计算费用
+    config.setModelPricing({ input: 1, output: 0 });
+    config.setMaxCost(0.01);
+  });
+
+  afterEach(() => getConfigManager().resetConfig());
+
+  it("预留的费用计入上限，超出时拒绝并停止后续批次", () => {
+    const tracker = new CostTracker();
+    const batch = { promptTokens: 4000, outputTokens: 0 };
+
+    assert.equal(tracker.reserve(batch), 0.004);
+    assert.equal(tracker.reserve(batch), 0.004);
+    assert.equal(tracker.reserve(batch), null);
+    assert.equal(tracker.isExceeded(), true);
+    // 停止后即使预算足够也不再接受
+    assert.equal(tracker.reserve({ promptTokens: 1, outputTokens: 0 }), null);
+  });
+
+  it("结算时释放预留费用并按实际用量累计", () => {
+    const tracker = new CostTracker();
+    const reserved = tracker.reserve({ promptTokens: 8000, outputTokens: 0 });
+    assert.equal(reserved, 0.008);
+
+    tracker.settle(reserved, { promptTokens: 3000, outputTokens: 200 });
+    const usage = tracker.getUsage();
+    assert.equal(usage.promptTokens, 3000);
+    assert.equal(usage.outputTokens, 200);
+    assert.equal(tracker.getCost(), 0.003);
+    // 实际用量低于预估，释放的额度可供后续批次使用
+    assert.equal(
+      tracker.reserve({ promptTokens: 7000, outputTokens: 0 }),
+      0.007,
+    );
+  });
+
+  it("未设置费用上限时不限制", () => {
+    getConfigManager().resetConfig();
+    const tracker = new CostTracker();
+
+    assert.equal(
+      tracker.reserve({ promptTokens: 10_000_000, outputTokens: 0 }),
+      0,
+    );
+    assert.equal(tracker.isExceeded(), false);
+  });
+
+  it("按结果数量估算输出 token", () => {
+    assert.deepEqual(CostTracker.estimateUsage(1200, 3), {
+      promptTokens: 1200,
+      outputTokens: 1500,
+    });
+  });
+
+  it("备用模型的用量按其自身的价格计算", () => {
+    const config = getConfigManager();
+    config.setFallbackModels([{ provider: "openai", model: "pricey-model" }]);
+    config.setModelPricing({ input: 10, output: 0 }, "pricey-model");
+    const tracker = new CostTracker();
+
+    const usage = { promptTokens: 0, outputTokens: 0 };
+    CostTracker.addUsage(
+      usage,
+      { promptTokens: 1000, outputTokens: 0 },
+      config.getModel(),
+    );
+    CostTracker.addUsage(
+      usage,
+      { promptTokens: 1000, outputTokens: 0 },
+      "pricey-model",
+    );
+
+    assert.equal(tracker.getCost(usage), 0.011);
+    // 预留时按链中最贵的价格计算
+    assert.equal(
+      tracker.reserve({ promptTokens: 500, outputTokens: 0 }),
+      0.005,
+    );
+  });
+
+  it("设置费用上限时要求备用模型配置价格", () => {
+    const config = getConfigManager();
+    config.setFallbackModels([{ provider: "openai", model: "unpriced-model" }]);
+
+    const { valid, errors } = config.validateConfig();
+    assert.equal(valid, false);
+    assert.ok(errors.some((error) => error.includes("unpriced-model")));
+  });
+});
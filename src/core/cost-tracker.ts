@@ -0,0 +1,202 @@
+/**
+ * 费用统计
+ * 汇总本次运行各模型的 token 用量，按各模型配置的价格估算费用，并在发送批次前检查费用上限
+ */
+
+import { getConfigManager } from "@/core/config";
+import type { ModelPricing, TokenUsage } from "@/types";
+import { progressLogger } from "@/utils/progress-logger";
+
+export class CostTracker {
+  /** 每个分析结果预估的输出 token 数（含思考过程，保守估计） */
+  private static readonly OUTPUT_TOKENS_PER_RESULT = 500;
+  /** 主模型名称，没有按模型统计的用量按其价格计算 */
+  private model: string;
+  /** 主模型和备用模型的价格，未配置的模型无法估算费用 */
+  private pricing: Record<string, ModelPricing | undefined> = {};
+  /** 费用上限（美元） */
+  private maxCost: number | undefined;
+  /** 已完成请求的 token 用量 */
+  private usage: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+  /** 进行中批次的预估费用 */
+  private reservedCost = 0;
+  /** 是否已因费用上限停止处理 */
+  private exceeded = false;
+
+  constructor() {
+    const config = getConfigManager();
+    this.model = config.getModel();
+    for (const model of [
+      this.model,
+      ...config
+        .getFallbackModels()
+        .map(
+          (fallback) => fallback.model ?? config.getModel(fallback.provider),
+        ),
+    ]) {
+      this.pricing[model] = config.getModelPricing(model);
+    }
+    this.maxCost = config.getMaxCost();
+  }
+
+  /**
+   * 按模型价格计算费用
+   * @param usage - token 用量
+   * @param pricing - 模型价格（美元 / 百万 tokens）
+   * @returns 费用（美元）
+   */
+  public static calculateCost(
+    usage: TokenUsage,
+    pricing: ModelPricing,
+  ): number {
+    return (
+      (usage.promptTokens * pricing.input +
+        usage.outputTokens * pricing.output) /
+      1_000_000
+    );
+  }
+
+  /**
+   * 估算一次分析的 token 用量
+   * @param promptTokens - 估算的输入 token 数
+   * @param resultCount - 预期的结果数量
+   * @returns token 用量
+   */
+  public static estimateUsage(
+    promptTokens: number,
+    resultCount: number,
+  ): TokenUsage {
+    return {
+      promptTokens,
+      outputTokens: resultCount * CostTracker.OUTPUT_TOKENS_PER_RESULT,
+    };
+  }
+
+  /**
+   * 累计一次请求的用量，同时计入所用模型的分项
+   * @param usage - 累计用量的对象
+   * @param delta - 本次请求的用量
+   * @param model - 处理请求的模型
+   */
+  public static addUsage(
+    usage: TokenUsage,
+    delta: TokenUsage,
+    model: string,
+  ): void {
+    usage.promptTokens += delta.promptTokens;
+    usage.outputTokens += delta.outputTokens;
+
+    usage.byModel ??= {};
+    usage.byModel[model] ??= { promptTokens: 0, outputTokens: 0 };
+    const modelUsage = usage.byModel[model];
+    modelUsage.promptTokens += delta.promptTokens;
+    modelUsage.outputTokens += delta.outputTokens;
+  }
+
+  /**
+   * 发送批次前预留其预估费用
+   * 批次可能改由备用模型处理，按链中最贵的价格预留；
+   * 已完成和进行中的费用加上该批次将超出上限时拒绝，并停止后续所有批次
+   * @param estimate - 批次的预估用量
+   * @returns 预留的费用，超出上限时返回 null
+   */
+  public reserve(estimate: TokenUsage): number | null {
+    if (this.exceeded) {
+      return null;
+    }
+    const prices = Object.values(this.pricing);
+    const spentCost = this.getCost();
+    if (
+      this.maxCost === undefined ||
+      spentCost === undefined ||
+      prices.some((pricing) => pricing === undefined)
+    ) {
+      return 0;
+    }
+
+    const cost = Math.max(
+      ...prices.map((pricing) =>
+        CostTracker.calculateCost(estimate, pricing as ModelPricing),
+      ),
+    );
+    const spent = spentCost + this.reservedCost;
+    if (spent + cost > this.maxCost) {
+      this.exceeded = true;
+      progressLogger.warn(
+        `已花费约 ${CostTracker.formatCost(spent)}，继续处理将超出费用上限 ${CostTracker.formatCost(this.maxCost)}，停止处理剩余批次`,
+      );
+      return null;
+    }
+
+    this.reservedCost += cost;
+    return cost;
+  }
+
+  /**
+   * 批次完成后记录实际用量并释放预留的费用
+   * @param reservedCost - 预留的费用
+   * @param usage - 实际 token 用量
+   */
+  public settle(reservedCost: number, usage: TokenUsage): void {
+    this.reservedCost -= reservedCost;
+
+    const byModel = Object.entries(usage.byModel ?? {});
+    if (byModel.length === 0) {
+      CostTracker.addUsage(this.usage, usage, this.model);
+      return;
+    }
+    for (const [model, modelUsage] of byModel) {
+      CostTracker.addUsage(this.usage, modelUsage, model);
+    }
+  }
+
+  /**
+   * 获取已完成请求的 token 用量
+   * @returns token 用量
+   */
+  public getUsage(): TokenUsage {
+    return {
+      promptTokens: this.usage.promptTokens,
+      outputTokens: this.usage.outputTokens,
+      byModel: structuredClone(this.usage.byModel),
+    };
+  }
+
+  /**
+   * 获取估算费用，按模型分项的用量使用各模型的价格
+   * @param usage - token 用量，默认为已完成请求的用量
+   * @returns 费用（美元），有模型未配置价格时返回 undefined
+   */
+  public getCost(usage: TokenUsage = this.usage): number | undefined {
+    const byModel = Object.entries(usage.byModel ?? {});
+    const entries: Array<[string, TokenUsage]> =
+      byModel.length > 0 ? byModel : [[this.model, usage]];
+
+    let cost = 0;
+    for (const [model, modelUsage] of entries) {
+      const pricing = this.pricing[model];
+      if (!pricing) {
+        return undefined;
+      }
+      cost += CostTracker.calculateCost(modelUsage, pricing);
+    }
+    return cost;
+  }
+
+  /**
+   * 是否已因费用上限停止处理
+   * @returns 是否已停止
+   */
+  public isExceeded(): boolean {
+    return this.exceeded;
+  }
+
+  /**
+   * 格式化费用
+   * @param cost - 费用（美元）
+   * @returns 格式化后的费用
+   */
+  public static formatCost(cost: number): string {
+    return `$${cost.toFixed(4)}`;
+  }
+}
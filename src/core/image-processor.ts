@@ -3,15 +3,30 @@
  * 提供图像压缩、优化、格式转换等功能
  */
 
+import { randomUUID } from "node:crypto";
 import { unlinkSync } from "node:fs";
 import { join } from "node:path";
 import sharp from "sharp";
 import { getConfigManager } from "@/core/config";
-import type { CleanupFunction, ImageProcessOptions } from "@/types";
+import type {
+  CleanupFunction,
+  ContactSheetLayout,
+  ImageProcessOptions,
+} from "@/types";
 import { FileUtils } from "@/utils/file-utils";
 import { getSignalHandler } from "@/utils/signal-handler";
 
 export class ImageProcessor {
+  /** AI 分析使用的图像优化参数 */
+  public static readonly AI_OPTIMIZED_OPTIONS: ImageProcessOptions = {
+    quality: 85,
+    maxWidth: 1024,
+    maxHeight: 1024,
+    keepAspectRatio: true,
+    format: "jpeg",
+  };
+  /** 小图拼接图的格子边长，与模型按一个图块计费的小图尺寸一致 */
+  public static readonly CONTACT_SHEET_CELL_SIZE = 384;
   /** 临时文件清理列表 */
   private tempFiles: string[] = [];
   /** 清理函数 */
@@ -50,7 +65,7 @@ export class ImageProcessor {
     const tempDir = FileUtils.getTempDir();
     const outputPath = join(
       tempDir,
-      `processed_${Date.now()}.${processOptions.format}`,
+      `processed_${Date.now()}_${randomUUID().slice(0, 8)}.${processOptions.format}`,
     );
 
     try {
@@ -181,15 +196,204 @@ export class ImageProcessor {
    * @returns 优化后的图像路径
    */
   public async optimizeForAI(imagePath: string) {
-    const aiOptimizedOptions: ImageProcessOptions = {
-      quality: 85,
-      maxWidth: 1024,
-      maxHeight: 1024,
-      keepAspectRatio: true,
-      format: "jpeg",
+    return this.processImage(imagePath, ImageProcessor.AI_OPTIMIZED_OPTIONS);
+  }
+
+  /**
+   * 估算图像经过 AI 优化后的尺寸（不实际处理图像）
+   * @param imagePath - 图像文件路径
+   * @returns 优化后的尺寸
+   */
+  public async estimateOptimizedSize(
+    imagePath: string,
+  ): Promise<{ width: number; height: number }> {
+    const metadata = await sharp(imagePath).metadata();
+    return this.estimateOptimizedDimensions(
+      metadata.width || 0,
+      metadata.height || 0,
+    );
+  }
+
+  /**
+   * 按原始尺寸估算经过 AI 优化后的尺寸
+   * @param width - 原始宽度
+   * @param height - 原始高度
+   * @returns 优化后的尺寸
+   */
+  public estimateOptimizedDimensions(
+    width: number,
+    height: number,
+  ): { width: number; height: number } {
+    const { maxWidth, maxHeight, keepAspectRatio } =
+      ImageProcessor.AI_OPTIMIZED_OPTIONS;
+
+    return this.calculateNewSize(
+      width,
+      height,
+      maxWidth,
+      maxHeight,
+      keepAspectRatio,
+    );
+  }
+
+  /**
+   * 计算拼接图的尺寸：列数取帧数的平方根，整张图不超过 AI 优化的最大尺寸
+   * @param count - 格子数
+   * @param width - 单帧宽度
+   * @param height - 单帧高度
+   * @returns 行列数、格子尺寸和整张图的尺寸
+   */
+  public static getContactSheetSize(
+    count: number,
+    width: number,
+    height: number,
+  ): {
+    columns: number;
+    rows: number;
+    cellWidth: number;
+    cellHeight: number;
+    width: number;
+    height: number;
+  } {
+    const { maxWidth, maxHeight } = ImageProcessor.AI_OPTIMIZED_OPTIONS;
+    const columns = Math.ceil(Math.sqrt(count));
+    const rows = Math.ceil(count / columns);
+
+    // 按单帧比例缩放格子，使整张图同时满足宽高限制
+    const scale = Math.min(
+      maxWidth / (columns * width),
+      maxHeight / (rows * height),
+      1,
+    );
+    const cellWidth = Math.max(1, Math.floor(width * scale));
+    const cellHeight = Math.max(1, Math.floor(height * scale));
+
+    return {
+      columns,
+      rows,
+      cellWidth,
+      cellHeight,
+      width: columns * cellWidth,
+      height: rows * cellHeight,
+    };
+  }
+
+  /**
+   * 把多张图像拼接为一张网格图，每格左上角标注文字
+   * @param cells - 各格的图像路径和标注，按从左到右、从上到下的顺序排列
+   * @param cellSize - 格子尺寸，默认按第一张图像的比例计算
+   * @returns 拼接图路径和网格布局
+   */
+  public async createContactSheet(
+    cells: Array<{ path: string; label: string }>,
+    cellSize?: { width: number; height: number },
+  ): Promise<{ path: string; layout: ContactSheetLayout }> {
+    const first = await sharp(cells[0].path).metadata();
+    const size = ImageProcessor.getContactSheetSize(
+      cells.length,
+      cellSize?.width ?? first.width ?? ImageProcessor.CONTACT_SHEET_CELL_SIZE,
+      cellSize?.height ??
+        first.height ??
+        ImageProcessor.CONTACT_SHEET_CELL_SIZE,
+    );
+    const fontSize = Math.max(12, Math.round(size.cellHeight / 10));
+
+    const composites = await Promise.all(
+      cells.map(async (cell, index) => {
+        const tile = await sharp(cell.path)
+          .resize(size.cellWidth, size.cellHeight, {
+            fit: "contain",
+            background: { r: 0, g: 0, b: 0 },
+          })
+          .composite([
+            {
+              input: ImageProcessor.createLabelSvg(
+                cell.label,
+                fontSize,
+                size.cellWidth,
+                size.cellHeight,
+              ),
+              top: 0,
+              left: 0,
+            },
+          ])
+          .toBuffer();
+
+        return {
+          input: tile,
+          left: (index % size.columns) * size.cellWidth,
+          top: Math.floor(index / size.columns) * size.cellHeight,
+        };
+      }),
+    );
+
+    const outputPath = join(
+      FileUtils.getTempDir(),
+      `sheet_${Date.now()}_${randomUUID().slice(0, 8)}.jpeg`,
+    );
+
+    try {
+      await sharp({
+        create: {
+          width: size.width,
+          height: size.height,
+          channels: 3,
+          background: { r: 0, g: 0, b: 0 },
+        },
+      })
+        .composite(composites)
+        .jpeg({ quality: ImageProcessor.AI_OPTIMIZED_OPTIONS.quality })
+        .toFile(outputPath);
+      this.tempFiles.push(outputPath);
+    } catch (error) {
+      this.cleanupTempFiles([outputPath]);
+      throw new Error(
+        `生成拼接图失败: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+
+    return {
+      path: outputPath,
+      layout: {
+        columns: size.columns,
+        rows: size.rows,
+        labels: cells.map((cell) => cell.label),
+      },
     };
+  }
 
-    return this.processImage(imagePath, aiOptimizedOptions);
+  /**
+   * 生成格子左上角的标注（深色底白字）
+   * @param label - 标注文字
+   * @param fontSize - 字号
+   * @param maxWidth - 最大宽度（格子宽度），超出部分被裁掉
+   * @param maxHeight - 最大高度（格子高度）
+   * @returns SVG 图像
+   */
+  private static createLabelSvg(
+    label: string,
+    fontSize: number,
+    maxWidth: number,
+    maxHeight: number,
+  ): Buffer {
+    const escaped = label
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+    const padding = Math.round(fontSize / 3);
+    // 等宽字体下每个字符约为 0.6 个字号宽
+    const width = Math.min(
+      maxWidth,
+      Math.ceil(label.length * fontSize * 0.6) + padding * 2,
+    );
+    const height = Math.min(maxHeight, fontSize + padding * 2);
+
+    return Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<rect width="100%" height="100%" fill="black" fill-opacity="0.7"/>` +
+        `<text x="${padding}" y="${padding + fontSize * 0.85}" font-family="monospace" font-size="${fontSize}" fill="white">${escaped}</text>` +
+        "</svg>",
+    );
   }
 
   /**
@@ -323,11 +527,20 @@ export class ImageProcessor {
   }
 
   /**
-   * 清理所有临时文件
+   * 清理临时文件
+   * @param filePaths - 要清理的临时文件，默认清理全部
    */
-  public cleanup(): void {
-    this.cleanupTempFiles(this.tempFiles);
-    this.tempFiles = [];
+  public cleanup(filePaths?: string[]): void {
+    if (!filePaths) {
+      this.cleanupTempFiles(this.tempFiles);
+      this.tempFiles = [];
+      return;
+    }
+
+    this.cleanupTempFiles(filePaths);
+    this.tempFiles = this.tempFiles.filter(
+      (filePath) => !filePaths.includes(filePath),
+    );
   }
 
   /**
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { AIBatchProcessor } from "@/core/ai-analyzer";
+import { MediaBatchProcessor } from "@/core/media-batch-processor";
+import { ProviderError, type ProviderErrorKind } from "@/errors/provider-error";
+import { createFakeProvider } from "@/test/helpers";
+import type {
+  AnalysisResult,
+  AnalysisTarget,
+  MediaBatchItem,
+  TokenUsage,
+} from "@/types";
+
+/** 测试中访问的 MediaBatchProcessor 私有成员 */
+interface BisectionAccess {
+  aiBatchProcessor: AIBatchProcessor;
+  analyzeWithBisection(
+    batchItems: MediaBatchItem[],
+    userPrompt: string | undefined,
+    usage: TokenUsage,
+  ): Promise<{ results: AnalysisResult[]; failures: Map<string, string> }>;
+}
+
+/**
+ * 创建图片媒体项
+ * @param name - 文件名
+ * @returns 媒体项
+ */
+function createImageItem(name: string): MediaBatchItem {
+  const originalPath = `/photos/${name}.jpg`;
+  return { originalPath, framePaths: [originalPath], mediaType: "image" };
+}
+
+/**
+ * 创建分析结果
+ * @param target - 分析对象
+ * @returns 分析结果
+ */
+function createResult(target: AnalysisTarget): AnalysisResult {
+  return {
+    originalPath: target.path,
+    suggestedName: "named",
+    description: "描述",
+    tags: [],
+    category: "其他",
+    timestamp: 1,
+    filename: "named",
+    provider: "gemini",
+    model: "fake-model",
+    fallback: false,
+  };
+}
+
+describe("MediaBatchProcessor 拆分失败的批次", () => {
+  let processor: MediaBatchProcessor;
+  let access: BisectionAccess;
+  let calls: string[][];
+
+  /**
+   * 使用按请求内容返回结果或抛出错误的分析器
+   * @param respond - 请求失败时抛出错误，否则返回 undefined
+   */
+  function stubAnalyzer(
+    respond: (targets: AnalysisTarget[]) => ProviderError | undefined,
+  ): void {
+    access.aiBatchProcessor.analyzeBatch = async (targets) => {
+      calls.push(targets.map((target) => target.path));
+      const error = respond(targets);
+      if (error) {
+        throw error;
+      }
+      return targets.map(createResult);
+    };
+  }
+
+  beforeEach(() => {
+    processor = new MediaBatchProcessor([
+      createFakeProvider(() => []).provider,
+    ]);
+    access = processor as unknown as BisectionAccess;
+    calls = [];
+  });
+
+  afterEach(() => processor.destroy());
+
+  it("批次中只有一个损坏的文件时，只有该文件失败", async () => {
+    const items = ["a", "b", "c", "d"].map(createImageItem);
+    const corruptPath = items[2].originalPath;
+    stubAnalyzer((targets) =>
+      targets.some((target) => target.path === corruptPath)
+        ? new ProviderError("图像无法解码", "invalid_request", { status: 400 })
+        : undefined,
+    );
+
+    const { results, failures } = await access.analyzeWithBisection(
+      items,
+      undefined,
+      { promptTokens: 0, outputTokens: 0 },
+    );
+
+    assert.deepEqual(
+      results.map((result) => result.originalPath),
+      ["/photos/a.jpg", "/photos/b.jpg", "/photos/d.jpg"],
+    );
+    assert.deepEqual([...failures.keys()], [corruptPath]);
+    assert.deepEqual(calls, [
+      ["/photos/a.jpg", "/photos/b.jpg", "/photos/c.jpg", "/photos/d.jpg"],
+      ["/photos/a.jpg", "/photos/b.jpg"],
+      ["/photos/c.jpg", "/photos/d.jpg"],
+      ["/photos/c.jpg"],
+      ["/photos/d.jpg"],
+    ]);
+  });
+
+  for (const kind of [
+    "auth",
+    "transient",
+    "not_recorded",
+  ] satisfies ProviderErrorKind[]) {
+    it(`${kind} 错误直接抛出，不拆分批次`, async () => {
+      stubAnalyzer(() => new ProviderError(`${kind} 错误`, kind));
+
+      await assert.rejects(
+        access.analyzeWithBisection(
+          ["a", "b"].map(createImageItem),
+          undefined,
+          { promptTokens: 0, outputTokens: 0 },
+        ),
+        { name: "ProviderError", kind },
+      );
+      assert.equal(calls.length, 1);
+    });
+  }
+});
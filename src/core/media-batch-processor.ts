@@ -4,19 +4,29 @@
  */
 
 import { basename, dirname, join } from "node:path";
-import { AIBatchProcessor } from "@/core/ai-analyzer";
+import { AIAnalyzer, AIBatchProcessor } from "@/core/ai-analyzer";
+import { BatchPlanner } from "@/core/batch-planner";
 import { getConfigManager } from "@/core/config";
+import { CostTracker } from "@/core/cost-tracker";
 import { ImageProcessor } from "@/core/image-processor";
+import { getResultCache } from "@/core/result-cache";
 import { VideoProcessor } from "@/core/video-processor";
+import { ProviderError } from "@/errors/provider-error";
 import type {
   AnalysisResult,
+  AnalysisTarget,
   MediaBatchItem,
   MediaBatchResult,
+  MixedBatch,
   MixedBatchStats,
   RenameResult,
+  TokenUsage,
+  VisionProvider,
 } from "@/types";
+import { ConcurrencyUtils } from "@/utils/concurrency";
 import { FileUtils } from "@/utils/file-utils";
 import { progressLogger } from "@/utils/progress-logger";
+import { Romanizer } from "@/utils/romanizer";
 import { TemplateResolver } from "@/utils/template-resolver";
 
 export class MediaBatchProcessor {
@@ -26,13 +36,27 @@ export class MediaBatchProcessor {
   private videoProcessor: VideoProcessor;
   /** 图像处理器 */
   private imageProcessor: ImageProcessor;
+  /** 批次规划器 */
+  private batchPlanner: BatchPlanner;
   /** 临时文件清理列表 */
   private tempFiles: string[] = [];
+  /** 本次处理的请求重试次数 */
+  private retryCount = 0;
+  /** 已分配的目标路径，避免并发批次生成相同的文件名 */
+  private reservedPaths = new Set<string>();
+  /** 待分析文件的缓存键，分析完成后写入缓存 */
+  private cacheKeys = new Map<string, string>();
+  /** 本次处理的 token 用量和费用 */
+  private costTracker = new CostTracker();
 
-  constructor() {
-    this.aiBatchProcessor = new AIBatchProcessor();
+  /**
+   * @param providers - 视觉模型提供商链，默认根据配置创建
+   */
+  constructor(providers?: VisionProvider[]) {
+    this.aiBatchProcessor = new AIBatchProcessor(providers);
     this.videoProcessor = new VideoProcessor();
     this.imageProcessor = new ImageProcessor();
+    this.batchPlanner = new BatchPlanner(this.imageProcessor);
   }
 
   /**
@@ -52,11 +76,19 @@ export class MediaBatchProcessor {
 
     progressLogger.info(`开始批量处理 ${filePaths.length} 个媒体文件`);
 
+    // 命中缓存的文件直接使用缓存结果，无需提取帧和分析
+    this.reservedPaths.clear();
+    this.costTracker = new CostTracker();
+    const { cachedResults, pendingPaths } = await this.resolveCachedFiles(
+      filePaths,
+      userPrompt,
+    );
+
     // 第一步：预处理文件，提取帧
     const frameExtractionStart = Date.now();
     progressLogger.startProgress("预处理文件，提取帧...");
 
-    const mediaBatchItems = await this.preprocessFiles(filePaths);
+    const mediaBatchItems = await this.preprocessFiles(pendingPaths);
     const frameExtractionTime = Date.now() - frameExtractionStart;
 
     progressLogger.succeedProgress(
@@ -65,7 +97,7 @@ export class MediaBatchProcessor {
     progressLogger.debug(`总共准备 ${mediaBatchItems.length} 个处理项`);
 
     // 第二步：创建混合批次
-    const mixedBatches = this.createMixedBatches(mediaBatchItems);
+    const mixedBatches = await this.createMixedBatches(mediaBatchItems);
     progressLogger.debug(`创建 ${mixedBatches.length} 个混合批次进行AI分析`);
 
     // 第三步：增量处理 - AI分析 → 立即处理结果
@@ -74,6 +106,8 @@ export class MediaBatchProcessor {
       userPrompt,
     );
 
+    results.unshift(...cachedResults);
+
     const endTime = Date.now();
 
     // 统计信息
@@ -114,11 +148,21 @@ export class MediaBatchProcessor {
       `📁 开始批量处理并重命名 ${filePaths.length} 个媒体文件${outputDir ? ` (输出到: ${outputDir})` : ""}`,
     );
 
+    // 命中缓存的文件直接使用缓存结果，无需提取帧和分析
+    this.reservedPaths.clear();
+    this.costTracker = new CostTracker();
+    const { cachedResults, pendingPaths } = await this.resolveCachedFiles(
+      filePaths,
+      userPrompt,
+      outputDir,
+      preview,
+    );
+
     // 第一步：预处理文件，提取帧
     const frameExtractionStart = Date.now();
     progressLogger.startProgress("预处理文件，提取帧...");
 
-    const mediaBatchItems = await this.preprocessFiles(filePaths);
+    const mediaBatchItems = await this.preprocessFiles(pendingPaths);
     const frameExtractionTime = Date.now() - frameExtractionStart;
 
     progressLogger.succeedProgress(
@@ -127,7 +171,7 @@ export class MediaBatchProcessor {
     progressLogger.debug(`总共准备 ${mediaBatchItems.length} 个处理项`);
 
     // 第二步：创建混合批次
-    const mixedBatches = this.createMixedBatches(mediaBatchItems);
+    const mixedBatches = await this.createMixedBatches(mediaBatchItems);
     progressLogger.debug(`创建 ${mixedBatches.length} 个混合批次进行增量处理`);
 
     // 第三步：增量处理 - AI分析 → 立即重命名
@@ -138,6 +182,8 @@ export class MediaBatchProcessor {
       preview,
     );
 
+    results.unshift(...cachedResults);
+
     const endTime = Date.now();
 
     // 统计信息
@@ -155,6 +201,102 @@ export class MediaBatchProcessor {
     return { results, stats };
   }
 
+  /**
+   * 查询结果缓存，命中的文件直接按缓存结果重命名
+   * @param filePaths - 文件路径列表
+   * @param userPrompt - 用户提示词
+   * @param outputDir - 输出目录
+   * @param preview - 是否预览模式
+   * @returns 缓存命中的处理结果和仍需分析的文件
+   */
+  private async resolveCachedFiles(
+    filePaths: string[],
+    userPrompt?: string,
+    outputDir?: string,
+    preview = false,
+  ): Promise<{ cachedResults: MediaBatchResult[]; pendingPaths: string[] }> {
+    const cache = getResultCache();
+    const cachedResults: MediaBatchResult[] = [];
+    const pendingPaths: string[] = [];
+    this.cacheKeys.clear();
+
+    if (!cache.isEnabled()) {
+      return { cachedResults, pendingPaths: filePaths };
+    }
+
+    const prompt = this.aiBatchProcessor.getPrompt(userPrompt);
+
+    for (const filePath of filePaths) {
+      const fileInfo = FileUtils.getFileInfo(filePath);
+      if (!fileInfo) {
+        pendingPaths.push(filePath);
+        continue;
+      }
+
+      let key: string;
+      try {
+        key = await cache.createKey(filePath, prompt);
+      } catch (error) {
+        progressLogger.warn(`计算文件哈希失败 ${filePath}: ${error}`);
+        pendingPaths.push(filePath);
+        continue;
+      }
+
+      const analysisResult = cache.get(key, filePath);
+      if (!analysisResult) {
+        this.cacheKeys.set(filePath, key);
+        pendingPaths.push(filePath);
+        continue;
+      }
+
+      const batchItem: MediaBatchItem = {
+        originalPath: filePath,
+        framePaths: [],
+        mediaType: fileInfo.type,
+        metadata: {
+          extension: fileInfo.extension,
+        },
+      };
+
+      try {
+        const renameResult = await this.renameFile(
+          batchItem,
+          analysisResult,
+          outputDir,
+          preview,
+        );
+
+        cachedResults.push({
+          batchItem,
+          analysisResult,
+          success: renameResult.success,
+          error: renameResult.error,
+          newPath: renameResult.newPath,
+        });
+
+        progressLogger.info(
+          `✓ ${preview ? "预览" : "重命名"}（缓存命中）: ${basename(filePath)} → ${basename(renameResult.newPath)}`,
+        );
+      } catch (error) {
+        cachedResults.push({
+          batchItem,
+          analysisResult,
+          success: false,
+          error: error instanceof Error ? error.message : "重命名失败",
+          newPath: filePath,
+        });
+      }
+    }
+
+    if (cachedResults.length > 0) {
+      progressLogger.info(
+        `结果缓存命中 ${cachedResults.length} 个文件，剩余 ${pendingPaths.length} 个文件需要分析`,
+      );
+    }
+
+    return { cachedResults, pendingPaths };
+  }
+
   /**
    * 预处理文件：验证文件并提取视频帧
    * @param filePaths - 文件路径列表
@@ -220,62 +362,59 @@ export class MediaBatchProcessor {
   }
 
   /**
-   * 创建混合批次：将所有帧（无论来源）分组为批次
+   * 创建混合批次：将所有文件（无论来源）分组为批次，视频的所有帧作为一个整体
+   * 按帧数、token 预算和请求大小限制打包；帧数过多的视频单独分段分析后汇总命名
    * @param mediaBatchItems - 媒体批次项列表
    * @returns 混合批次列表
    */
-  private createMixedBatches(mediaBatchItems: MediaBatchItem[]): {
-    framePaths: string[];
-    itemMappings: Array<{
-      frameIndex: number;
-      batchItem: MediaBatchItem;
-      framePathIndex: number;
-    }>;
-  }[] {
-    const config = getConfigManager();
-    const batchSize = config.getBatchProcessingConfig().batchSize;
-
-    // 收集所有帧路径及其对应的原始文件信息
-    const allFrames: Array<{
-      framePath: string;
-      batchItem: MediaBatchItem;
-      framePathIndex: number;
-    }> = [];
+  private async createMixedBatches(
+    mediaBatchItems: MediaBatchItem[],
+  ): Promise<MixedBatch[]> {
+    const longVideos = mediaBatchItems.filter(
+      (item) => item.framePaths.length > AIAnalyzer.MAX_GROUPED_FRAMES,
+    );
+    const groupedItems = mediaBatchItems.filter(
+      (item) => item.framePaths.length <= AIAnalyzer.MAX_GROUPED_FRAMES,
+    );
 
-    for (const batchItem of mediaBatchItems) {
-      for (let i = 0; i < batchItem.framePaths.length; i++) {
-        allFrames.push({
-          framePath: batchItem.framePaths[i],
-          batchItem,
-          framePathIndex: i,
-        });
-      }
-    }
+    // 按估算的开销分组，开启拼接图时视频的各帧按一张网格图计算
+    const contactSheet = getConfigManager().isContactSheetEnabled();
+    const plannedBatches = await this.batchPlanner.planBatches(
+      groupedItems,
+      (item) =>
+        contactSheet && item.framePaths.length > 1
+          ? this.batchPlanner.estimateContactSheetCost(
+              item.originalPath,
+              item.framePaths,
+            )
+          : this.batchPlanner.estimateFramesCost(
+              item.originalPath,
+              item.framePaths,
+            ),
+    );
 
-    // 按批次大小分组
-    const mixedBatches: {
-      framePaths: string[];
-      itemMappings: Array<{
-        frameIndex: number;
-        batchItem: MediaBatchItem;
-        framePathIndex: number;
-      }>;
-    }[] = [];
-
-    for (let i = 0; i < allFrames.length; i += batchSize) {
-      const batchFrames = allFrames.slice(i, i + batchSize);
-
-      mixedBatches.push({
-        framePaths: batchFrames.map((f) => f.framePath),
-        itemMappings: batchFrames.map((f, index) => ({
-          frameIndex: index,
-          batchItem: f.batchItem,
-          framePathIndex: f.framePathIndex,
-        })),
+    const batches: MixedBatch[] = plannedBatches.map(
+      ({ items, frames, tokens }) => ({
+        items,
+        frameCount: frames,
+        summarize: false,
+        estimatedTokens: tokens,
+      }),
+    );
+    for (const item of longVideos) {
+      batches.push({
+        items: [item],
+        frameCount: item.framePaths.length,
+        summarize: true,
+        estimatedTokens: BatchPlanner.estimateRequestTokens(
+          await this.batchPlanner.estimateFramesCost(
+            item.originalPath,
+            item.framePaths,
+          ),
+        ),
       });
     }
-
-    return mixedBatches;
+    return batches;
   }
 
   /**
@@ -287,23 +426,19 @@ export class MediaBatchProcessor {
    * @returns 处理结果列表
    */
   private async incrementalProcessBatches(
-    mixedBatches: {
-      framePaths: string[];
-      itemMappings: Array<{
-        frameIndex: number;
-        batchItem: MediaBatchItem;
-        framePathIndex: number;
-      }>;
-    }[],
+    mixedBatches: MixedBatch[],
     userPrompt?: string,
     outputDir?: string,
     preview = false,
   ): Promise<MediaBatchResult[]> {
     const allResults: MediaBatchResult[] = [];
     const completedFiles = new Set<string>();
+    /** 无法分析的文件及其失败原因 */
+    const failureReasons = new Map<string, string>();
+    const startRetryCount = this.aiBatchProcessor.getRetryCount();
 
     const totalFrames = mixedBatches.reduce(
-      (sum, batch) => sum + batch.framePaths.length,
+      (sum, batch) => sum + batch.frameCount,
       0,
     );
 
@@ -313,158 +448,353 @@ export class MediaBatchProcessor {
 
     progressLogger.startProgress("增量处理批次...");
 
-    for (let i = 0; i < mixedBatches.length; i++) {
-      const batch = mixedBatches[i];
-
-      // 更新进度显示当前进度
-      progressLogger.updateProgress(
-        `批次 ${i + 1}/${mixedBatches.length}: AI分析 ${batch.framePaths.length} 张图片...`,
-      );
+    const concurrency = getConfigManager().getBatchConcurrency();
+    if (concurrency > 1) {
+      progressLogger.info(`并行处理：最多同时分析 ${concurrency} 个批次`);
+    }
+    let completedBatches = 0;
 
-      try {
-        // 步骤1：AI分析当前批次
-        const batchResult = await this.aiBatchProcessor.smartBatchProcess(
-          batch.framePaths,
-          userPrompt,
+    // 按配置的并发数同时处理多个批次，结果按批次顺序合并
+    const batchResultsList = await ConcurrencyUtils.mapWithConcurrency(
+      mixedBatches,
+      concurrency,
+      async (batch, i) => {
+        const batchLabel = `批次 ${i + 1}/${mixedBatches.length}`;
+        let batchResults: MediaBatchResult[] = [];
+
+        // 发送前检查费用上限，超出时跳过剩余批次
+        const reservedCost = this.costTracker.reserve(
+          CostTracker.estimateUsage(
+            batch.estimatedTokens,
+            batch.summarize
+              ? Math.ceil(batch.frameCount / AIAnalyzer.MAX_GROUPED_FRAMES) + 1
+              : batch.items.length,
+          ),
         );
+        if (reservedCost === null) {
+          completedBatches++;
+          return this.createFailedResults(
+            batch,
+            new Error("已达到费用上限，未处理"),
+          );
+        }
+        const usage: TokenUsage = { promptTokens: 0, outputTokens: 0 };
 
-        // 步骤2：立即处理当前批次的结果
-        const batchResults = await this.processBatchResults(
-          batch,
-          batchResult.results,
-          outputDir,
-          preview,
-          completedFiles,
+        // 更新进度显示当前进度
+        progressLogger.updateProgress(
+          `${batchLabel}: AI分析 ${batch.items.length} 个文件（${batch.frameCount} 帧）... (已完成 ${completedBatches}/${mixedBatches.length})`,
         );
 
-        allResults.push(...batchResults);
+        try {
+          // 步骤1：AI分析当前批次，请求失败时拆分批次定位问题文件
+          let analysisResults: AnalysisResult[];
+          if (batch.summarize) {
+            analysisResults = await this.analyzeLongVideo(
+              batch.items[0],
+              userPrompt,
+              failureReasons,
+              usage,
+            );
+          } else {
+            const { results, failures } = await this.analyzeWithBisection(
+              batch.items,
+              userPrompt,
+              usage,
+            );
+            analysisResults = results;
+
+            for (const [originalPath, reason] of failures) {
+              failureReasons.set(originalPath, reason);
+            }
+          }
 
+          // 步骤2：立即处理当前批次的结果
+          batchResults = await this.processBatchResults(
+            batch,
+            analysisResults,
+            outputDir,
+            preview,
+            completedFiles,
+          );
+
+          progressLogger.debug(
+            `${batchLabel} 完成，处理了 ${batch.frameCount} 帧，完成 ${batchResults.length} 个文件`,
+          );
+        } catch (error) {
+          progressLogger.error(`批次 ${i + 1} 处理失败: ${error}`);
+
+          // 处理失败的批次，创建失败结果
+          batchResults = this.createFailedResults(batch, error);
+        } finally {
+          this.costTracker.settle(reservedCost, usage);
+          this.logBatchUsage(batchLabel, usage);
+          getResultCache().flush();
+        }
+
+        completedBatches++;
         progressLogger.updateProgress(
-          `批次 ${i + 1}/${mixedBatches.length}: 完成重命名 ${batchResults.length} 个文件`,
-        );
-        progressLogger.debug(
-          `批次 ${i + 1}/${mixedBatches.length} 完成，处理了 ${batch.framePaths.length} 帧，完成 ${batchResults.length} 个文件`,
+          `已完成 ${completedBatches}/${mixedBatches.length} 个批次`,
         );
-      } catch (error) {
-        progressLogger.error(`批次 ${i + 1} 处理失败: ${error}`);
 
-        // 处理失败的批次，创建失败结果
-        const failedResults = this.createFailedResults(batch, error);
-        allResults.push(...failedResults);
+        return batchResults;
+      },
+    );
+    allResults.push(...batchResultsList.flat());
+
+    // 未获得有效分析结果的文件记为失败
+    const reportedFiles = new Set(
+      allResults.map((result) => result.batchItem.originalPath),
+    );
+    for (const batch of mixedBatches) {
+      for (const batchItem of batch.items) {
+        if (!reportedFiles.has(batchItem.originalPath)) {
+          reportedFiles.add(batchItem.originalPath);
+          allResults.push({
+            batchItem,
+            success: false,
+            error:
+              failureReasons.get(batchItem.originalPath) ||
+              "未获得有效的分析结果",
+            newPath: batchItem.originalPath,
+          });
+        }
       }
     }
 
+    this.retryCount = this.aiBatchProcessor.getRetryCount() - startRetryCount;
+
     progressLogger.succeedProgress("增量处理完成");
     return allResults;
   }
 
+  /**
+   * 在详细模式下输出批次的 token 用量和估算费用
+   * @param batchLabel - 批次标签
+   * @param usage - token 用量
+   */
+  private logBatchUsage(batchLabel: string, usage: TokenUsage): void {
+    if (!getConfigManager().isVerboseMode()) {
+      return;
+    }
+
+    const cost = this.costTracker.getCost(usage);
+    progressLogger.info(
+      `${batchLabel} token 用量: 输入 ${usage.promptTokens}，输出 ${usage.outputTokens}${cost !== undefined ? `，约 ${CostTracker.formatCost(cost)}` : ""}`,
+    );
+  }
+
+  /**
+   * 将媒体项转换为分析对象：图片为单帧，视频为带时间点的多帧
+   * @param batchItem - 媒体项
+   * @returns 分析对象
+   */
+  private toAnalysisTarget(batchItem: MediaBatchItem): AnalysisTarget {
+    const videoInfo = batchItem.metadata?.videoInfo;
+    if (videoInfo) {
+      return AIAnalyzer.createVideoTarget(videoInfo);
+    }
+
+    return {
+      path: batchItem.originalPath,
+      frames: batchItem.framePaths.map((path) => ({ path })),
+    };
+  }
+
+  /**
+   * 分段分析帧数过多的视频，失败时记录原因
+   * 认证失败或服务持续不可用时直接抛出错误
+   * @param batchItem - 视频媒体项
+   * @param userPrompt - 用户提示词
+   * @param failureReasons - 无法分析的文件及其失败原因
+   * @param usage - 累计本批次 token 用量的对象
+   * @returns 分析结果
+   */
+  private async analyzeLongVideo(
+    batchItem: MediaBatchItem,
+    userPrompt: string | undefined,
+    failureReasons: Map<string, string>,
+    usage: TokenUsage,
+  ): Promise<AnalysisResult[]> {
+    const videoInfo = batchItem.metadata?.videoInfo;
+    if (!videoInfo) {
+      return [];
+    }
+
+    try {
+      return [
+        await this.aiBatchProcessor.analyzeVideo(videoInfo, userPrompt, usage),
+      ];
+    } catch (error) {
+      const providerError = ProviderError.from(error);
+
+      if (
+        providerError.kind === "auth" ||
+        providerError.kind === "transient" ||
+        providerError.kind === "not_recorded"
+      ) {
+        throw providerError;
+      }
+
+      progressLogger.warn(
+        `无法分析: ${basename(batchItem.originalPath)} - ${providerError.message}`,
+      );
+      failureReasons.set(batchItem.originalPath, providerError.message);
+      return [];
+    }
+  }
+
+  /**
+   * 分析一组文件，请求失败时对半拆分并递归重试，直到定位出导致失败的文件
+   * 认证失败、服务持续不可用或回放时缺少录制时拆分无济于事，直接抛出错误
+   * @param batchItems - 媒体项列表
+   * @param userPrompt - 用户提示词
+   * @param usage - 累计本批次 token 用量的对象（递归时共享）
+   * @param failures - 无法分析的文件及其失败原因（递归时共享）
+   * @returns 分析结果和无法分析的文件
+   */
+  private async analyzeWithBisection(
+    batchItems: MediaBatchItem[],
+    userPrompt: string | undefined,
+    usage: TokenUsage,
+    failures = new Map<string, string>(),
+  ): Promise<{
+    results: AnalysisResult[];
+    failures: Map<string, string>;
+  }> {
+    try {
+      const results = await this.aiBatchProcessor.analyzeBatch(
+        batchItems.map((item) => this.toAnalysisTarget(item)),
+        userPrompt,
+        usage,
+      );
+      return { results, failures };
+    } catch (error) {
+      const providerError = ProviderError.from(error);
+
+      if (
+        providerError.kind === "auth" ||
+        providerError.kind === "transient" ||
+        providerError.kind === "not_recorded"
+      ) {
+        throw providerError;
+      }
+
+      if (batchItems.length === 1) {
+        const { originalPath } = batchItems[0];
+        progressLogger.warn(
+          `无法分析: ${basename(originalPath)} - ${providerError.message}`,
+        );
+        failures.set(originalPath, providerError.message);
+        return { results: [], failures };
+      }
+
+      const middle = Math.ceil(batchItems.length / 2);
+      progressLogger.warn(
+        `${batchItems.length} 个文件的请求失败，拆分为 ${middle} + ${batchItems.length - middle} 个文件重试: ${providerError.message}`,
+      );
+
+      const left = await this.analyzeWithBisection(
+        batchItems.slice(0, middle),
+        userPrompt,
+        usage,
+        failures,
+      );
+      const right = await this.analyzeWithBisection(
+        batchItems.slice(middle),
+        userPrompt,
+        usage,
+        failures,
+      );
+
+      return { results: [...left.results, ...right.results], failures };
+    }
+  }
+
   /**
    * 处理单个批次的结果：分析完成后立即重命名
    * @param batch - 批次数据
-   * @param analysisResults - AI分析结果
+   * @param analysisResults - AI分析结果（每个文件一个结果）
    * @param outputDir - 输出目录
    * @param preview - 是否预览模式
    * @param completedFiles - 已完成的文件集合
    * @returns 处理结果
    */
   private async processBatchResults(
-    batch: {
-      framePaths: string[];
-      itemMappings: Array<{
-        frameIndex: number;
-        batchItem: MediaBatchItem;
-        framePathIndex: number;
-      }>;
-    },
+    batch: MixedBatch,
     analysisResults: AnalysisResult[],
     outputDir?: string,
     preview = false,
     completedFiles?: Set<string>,
   ): Promise<MediaBatchResult[]> {
     const results: MediaBatchResult[] = [];
-    const fileResultsMap = new Map<string, AnalysisResult[]>();
-
-    // 将分析结果映射到原始文件
-    for (let j = 0; j < analysisResults.length; j++) {
-      const result = analysisResults[j];
-      const mapping = batch.itemMappings[j];
-
-      if (mapping) {
-        const originalPath = mapping.batchItem.originalPath;
-
-        // 跳过已完成的文件
-        if (completedFiles?.has(originalPath)) {
-          continue;
-        }
-
-        if (!fileResultsMap.has(originalPath)) {
-          fileResultsMap.set(originalPath, []);
-        }
+    const fileResults: Array<{
+      batchItem: MediaBatchItem;
+      analysisResult: AnalysisResult;
+    }> = [];
 
-        // 更新结果的原始路径
-        const updatedResult = {
-          ...result,
-          originalPath,
-        };
+    // 按原始文件路径关联分析结果，跳过已完成的文件
+    for (const analysisResult of analysisResults) {
+      const batchItem = batch.items.find(
+        (item) => item.originalPath === analysisResult.originalPath,
+      );
 
-        fileResultsMap.get(originalPath)?.push(updatedResult);
+      if (batchItem && !completedFiles?.has(batchItem.originalPath)) {
+        fileResults.push({ batchItem, analysisResult });
       }
     }
 
+    // 在重命名前标记为已完成，避免并发批次重复处理同一文件
+    for (const { batchItem } of fileResults) {
+      completedFiles?.add(batchItem.originalPath);
+    }
+
     // 为每个文件执行重命名
-    for (const [originalPath, frameResults] of fileResultsMap) {
-      if (frameResults.length > 0) {
-        const batchItem = batch.itemMappings.find(
-          (m) => m.batchItem.originalPath === originalPath,
-        )?.batchItem;
-
-        if (batchItem) {
-          // 使用第一个帧的分析结果作为文件的分析结果
-          const primaryResult = frameResults[0];
-
-          try {
-            // 执行重命名
-            const renameResult = await this.renameFile(
-              batchItem,
-              primaryResult,
-              outputDir,
-              preview,
-            );
+    for (const { batchItem, analysisResult } of fileResults) {
+      const originalPath = batchItem.originalPath;
 
-            results.push({
-              batchItem,
-              analysisResult: primaryResult,
-              success: renameResult.success,
-              error: renameResult.error,
-              newPath: renameResult.newPath,
-            });
+      const cacheKey = this.cacheKeys.get(originalPath);
+      if (cacheKey) {
+        getResultCache().set(cacheKey, analysisResult);
+      }
 
-            // 标记为已完成
-            completedFiles?.add(originalPath);
-
-            if (renameResult.success) {
-              progressLogger.info(
-                `✓ ${preview ? "预览" : "重命名"}: ${basename(originalPath)} → ${basename(renameResult.newPath)}`,
-              );
-            } else {
-              progressLogger.warn(
-                `✗ ${preview ? "预览" : "重命名"}失败: ${basename(originalPath)} - ${renameResult.error}`,
-              );
-            }
-          } catch (error) {
-            results.push({
-              batchItem,
-              analysisResult: primaryResult,
-              success: false,
-              error: error instanceof Error ? error.message : "重命名失败",
-              newPath: batchItem.originalPath, // 失败时新路径等于原路径
-            });
+      try {
+        // 执行重命名
+        const renameResult = await this.renameFile(
+          batchItem,
+          analysisResult,
+          outputDir,
+          preview,
+        );
 
-            progressLogger.error(
-              `重命名失败: ${basename(originalPath)} - ${error}`,
-            );
-          }
+        results.push({
+          batchItem,
+          analysisResult,
+          success: renameResult.success,
+          error: renameResult.error,
+          newPath: renameResult.newPath,
+        });
+
+        if (renameResult.success) {
+          progressLogger.info(
+            `✓ ${preview ? "预览" : "重命名"}: ${basename(originalPath)} → ${basename(renameResult.newPath)}`,
+          );
+        } else {
+          progressLogger.warn(
+            `✗ ${preview ? "预览" : "重命名"}失败: ${basename(originalPath)} - ${renameResult.error}`,
+          );
         }
+      } catch (error) {
+        results.push({
+          batchItem,
+          analysisResult,
+          success: false,
+          error: error instanceof Error ? error.message : "重命名失败",
+          newPath: batchItem.originalPath, // 失败时新路径等于原路径
+        });
+
+        progressLogger.error(
+          `重命名失败: ${basename(originalPath)} - ${error}`,
+        );
       }
     }
 
@@ -494,7 +824,7 @@ export class MediaBatchProcessor {
     const targetDir = outputDir || dirname(batchItem.originalPath);
     const newFilePath = await this.generateNewFilePath(
       targetDir,
-      analysisResult.suggestedName,
+      analysisResult,
       fileInfo.extension,
       batchItem.originalPath,
     );
@@ -531,19 +861,19 @@ export class MediaBatchProcessor {
   /**
    * 生成新的文件路径
    * @param targetDir - 目标目录
-   * @param suggestedName - 建议的文件名
+   * @param analysisResult - 分析结果（提供建议的文件名和模板变量）
    * @param extension - 文件扩展名
    * @param originalFilePath - 原始文件路径
    * @returns 新文件路径
    */
   private async generateNewFilePath(
     targetDir: string,
-    suggestedName: string,
+    analysisResult: AnalysisResult,
     extension: string,
     originalFilePath: string,
   ): Promise<string> {
     const config = getConfigManager();
-    let finalName = suggestedName;
+    let finalName = analysisResult.suggestedName;
 
     // 如果配置了文件名模板，使用模板解析
     if (config.isFilenameTemplateEnabled()) {
@@ -551,19 +881,29 @@ export class MediaBatchProcessor {
       if (templateConfig.template) {
         finalName = await TemplateResolver.resolveTemplate(
           templateConfig.template,
-          suggestedName,
+          analysisResult,
           originalFilePath,
           templateConfig,
         );
       }
     }
 
+    // 需要纯 ASCII 文件名时将中文转换为拼音
+    if (config.getPromptConfig().romanize) {
+      finalName = FileUtils.sanitizeFilename(Romanizer.toPinyin(finalName));
+    }
+
+    // 生成与预留路径之间不能有 await，保证并发批次不会拿到同一个文件名
     const uniqueName = FileUtils.generateUniqueFilename(
       targetDir,
       finalName,
       extension,
+      this.reservedPaths,
+      config.getFilenameStyle(),
     );
-    return join(targetDir, `${uniqueName}.${extension}`);
+    const newFilePath = join(targetDir, `${uniqueName}.${extension}`);
+    this.reservedPaths.add(newFilePath);
+    return newFilePath;
   }
 
   /**
@@ -573,38 +913,15 @@ export class MediaBatchProcessor {
    * @returns 失败结果列表
    */
   private createFailedResults(
-    batch: {
-      framePaths: string[];
-      itemMappings: Array<{
-        frameIndex: number;
-        batchItem: MediaBatchItem;
-        framePathIndex: number;
-      }>;
-    },
+    batch: MixedBatch,
     error: unknown,
   ): MediaBatchResult[] {
-    const results: MediaBatchResult[] = [];
-    const processedFiles = new Set<string>();
-
-    for (const mapping of batch.itemMappings) {
-      const originalPath = mapping.batchItem.originalPath;
-
-      // 避免重复处理同一文件
-      if (processedFiles.has(originalPath)) {
-        continue;
-      }
-
-      processedFiles.add(originalPath);
-
-      results.push({
-        batchItem: mapping.batchItem,
-        success: false,
-        error: error instanceof Error ? error.message : "处理失败",
-        newPath: mapping.batchItem.originalPath, // 失败时新路径等于原路径
-      });
-    }
-
-    return results;
+    return batch.items.map((batchItem) => ({
+      batchItem,
+      success: false,
+      error: error instanceof Error ? error.message : "处理失败",
+      newPath: batchItem.originalPath, // 失败时新路径等于原路径
+    }));
   }
 
   /**
@@ -655,6 +972,13 @@ export class MediaBatchProcessor {
         successfulBatches: successfulResults.length,
         failedBatches: results.length - successfulResults.length,
       },
+      retryCount: this.retryCount,
+      tokenUsage: this.costTracker.getUsage(),
+      estimatedCost: this.costTracker.getCost(),
+      budgetExceeded: this.costTracker.isExceeded(),
+      fallbackFiles: successfulResults.filter(
+        (result) => result.analysisResult?.fallback,
+      ).length,
     };
   }
 
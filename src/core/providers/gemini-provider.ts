@@ -0,0 +1,212 @@
+/**
+ * Google Gemini 提供商
+ * 通过 @google/genai SDK 调用 Gemini 多模态模型
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  ApiError,
+  FinishReason,
+  type GenerateContentResponse,
+  GoogleGenAI,
+} from "@google/genai";
+import { getConfigManager } from "@/core/config";
+import {
+  formatRequestParts,
+  parseResultsText,
+} from "@/core/providers/response-schema";
+import { ProviderError } from "@/errors/provider-error";
+import type {
+  ProviderAnalysisRequest,
+  ProviderAnalysisResponse,
+  ProviderTestResult,
+  VisionProvider,
+} from "@/types";
+import { FileUtils } from "@/utils/file-utils";
+import { progressLogger } from "@/utils/progress-logger";
+
+export class GeminiProvider implements VisionProvider {
+  public readonly name = "gemini" as const;
+  /** 表示内容被安全策略拦截的结束原因 */
+  private static readonly BLOCKED_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+  ];
+  /** Google Generative AI 实例 */
+  private genAI: GoogleGenAI;
+  /** 使用的模型 */
+  public readonly model: string;
+
+  /**
+   * @param model - 使用的模型，默认为配置中的模型
+   */
+  constructor(model?: string) {
+    const config = getConfigManager();
+    const apiKey = config.getApiKey();
+    this.model = model || config.get("defaultModel");
+
+    if (!apiKey) {
+      throw new Error("Google Gemini API Key 未配置");
+    }
+
+    this.genAI = new GoogleGenAI({ apiKey });
+  }
+
+  /**
+   * 分析一组图像
+   * @param request - 分析请求
+   * @returns 分析响应
+   */
+  public async analyzeImages(
+    request: ProviderAnalysisRequest,
+  ): Promise<ProviderAnalysisResponse> {
+    const config = getConfigManager();
+
+    // 准备请求内容：标注文本与图像按顺序穿插
+    const parts = formatRequestParts(request.items)
+      .flat()
+      .map((part) =>
+        "text" in part
+          ? part.text
+          : {
+              inlineData: {
+                data: readFileSync(part.imagePath).toString("base64"),
+                mimeType: FileUtils.getMimeType(part.imagePath),
+              },
+            },
+      );
+
+    if (config.isVerboseMode()) {
+      progressLogger.debug(
+        `图像 base64 大小: ${FileUtils.formatFileSize(
+          parts.reduce(
+            (sum, p) =>
+              typeof p === "string"
+                ? sum
+                : sum + FileUtils.base64EncodedSize(p.inlineData.data),
+            0,
+          ),
+        )}`,
+      );
+    }
+
+    let result: GenerateContentResponse;
+    try {
+      result = await this.genAI.models.generateContent({
+        model: this.model,
+        contents: [request.prompt, ...parts],
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: request.responseSchema,
+        },
+      });
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+
+    // 检查内容是否被拦截
+    const blockReason =
+      result.promptFeedback?.blockReason ||
+      GeminiProvider.BLOCKED_FINISH_REASONS.find(
+        (reason) => result.candidates?.[0]?.finishReason === reason,
+      );
+    if (blockReason) {
+      throw new ProviderError(`内容被安全策略拦截: ${blockReason}`, "blocked");
+    }
+
+    const text = result.text || "";
+
+    if (config.isVerboseMode()) {
+      progressLogger.info(
+        `AI 使用情况: ${JSON.stringify(result.usageMetadata, null, 2)}`,
+      );
+      progressLogger.info(`AI 响应: ${text}`);
+    }
+
+    // 思考过程的 token 按输出计费
+    const usage = result.usageMetadata;
+    return {
+      results: parseResultsText(text),
+      rawText: text,
+      usage: usage && {
+        promptTokens: usage.promptTokenCount ?? 0,
+        outputTokens:
+          (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+      },
+    };
+  }
+
+  /**
+   * 测试 API 连接
+   * @returns 测试结果
+   */
+  public async testConnection(): Promise<ProviderTestResult> {
+    const { model } = this;
+
+    try {
+      await this.genAI.models.generateContent({
+        model,
+        contents:
+          'Hello, this is a test message. Please respond with "Test successful".',
+      });
+
+      return { success: true, model };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * 将 SDK 抛出的错误转换为提供商错误
+   * @param error - 原始错误
+   * @returns 提供商错误
+   */
+  private toProviderError(error: unknown): ProviderError {
+    if (!(error instanceof ApiError)) {
+      return ProviderError.from(error);
+    }
+
+    // 无效的 API Key 返回 400，需要单独识别
+    const kind = /API_KEY_INVALID|API key not valid/i.test(error.message)
+      ? "auth"
+      : ProviderError.kindFromStatus(error.status);
+
+    // 限流时错误详情中的 RetryInfo 会给出建议的等待时间，如 "retryDelay": "37s"
+    const retryDelay = error.message.match(
+      /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/,
+    );
+
+    return new ProviderError(error.message, kind, {
+      status: error.status,
+      retryAfterMs: retryDelay ? Number(retryDelay[1]) * 1000 : undefined,
+      cause: error,
+    });
+  }
+
+  /**
+   * 列出支持内容生成的模型
+   * @returns 模型名称列表
+   */
+  public async listModels(): Promise<string[]> {
+    const models: string[] = [];
+    const pager = await this.genAI.models.list();
+
+    for await (const model of pager) {
+      if (
+        model.name &&
+        (!model.supportedActions ||
+          model.supportedActions.includes("generateContent"))
+      ) {
+        models.push(model.name.replace(/^models\//, ""));
+      }
+    }
+
+    return models;
+  }
+}
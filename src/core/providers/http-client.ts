@@ -0,0 +1,77 @@
+/**
+ * HTTP 请求工具
+ * 为基于 HTTP 接口的提供商提供统一的 JSON 请求封装
+ */
+
+import { ProviderError } from "@/errors/provider-error";
+
+/** 默认请求超时时间（毫秒） */
+const DEFAULT_TIMEOUT_MS = 300000;
+
+/**
+ * 发送 JSON 请求并解析 JSON 响应
+ * @param url - 请求地址
+ * @param options - 请求选项
+ * @returns 解析后的响应体
+ */
+export async function requestJson<T>(
+  url: string,
+  options: {
+    method?: "GET" | "POST";
+    body?: unknown;
+    headers?: Record<string, string>;
+    timeoutMs?: number;
+  } = {},
+): Promise<T> {
+  const { method = "GET", body, headers = {}, timeoutMs } = options;
+
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    text = await response.text();
+  } catch (error) {
+    // 连接失败、超时等网络异常
+    throw ProviderError.from(error);
+  }
+
+  if (!response.ok) {
+    throw new ProviderError(
+      `HTTP ${response.status} ${response.statusText}: ${text.slice(0, 500)}`,
+      ProviderError.kindFromStatus(response.status),
+      {
+        status: response.status,
+        retryAfterMs: ProviderError.parseRetryAfter(
+          response.headers.get("retry-after"),
+        ),
+      },
+    );
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ProviderError(
+      `响应不是有效的 JSON: ${text.slice(0, 200)}`,
+      "unknown",
+    );
+  }
+}
+
+/**
+ * 拼接基础地址和路径，避免出现重复的斜杠
+ * @param baseUrl - 基础地址
+ * @param path - 接口路径
+ * @returns 完整地址
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * 视觉模型提供商工厂
+ * 根据配置创建对应的提供商实例，录制或回放模式下包装/替换实际的提供商
+ */
+
+import { getConfigManager } from "@/core/config";
+import { GeminiProvider } from "@/core/providers/gemini-provider";
+import { OllamaProvider } from "@/core/providers/ollama-provider";
+import { OpenAIProvider } from "@/core/providers/openai-provider";
+import { RecordingProvider } from "@/core/providers/recording-provider";
+import { ReplayProvider } from "@/core/providers/replay-provider";
+import type { VisionProvider, VisionProviderName } from "@/types";
+
+/**
+ * 创建视觉模型提供商
+ * @param name - 提供商名称，默认使用配置中的提供商
+ * @param model - 模型名称，默认使用该提供商配置中的模型
+ * @returns 提供商实例
+ */
+export function createVisionProvider(
+  name: VisionProviderName = getConfigManager().getProvider(),
+  model: string = getConfigManager().getModel(name),
+): VisionProvider {
+  const config = getConfigManager();
+
+  // 回放时不创建实际的提供商，无需 API Key 和网络
+  const replayDir = config.getReplayDirectory();
+  if (replayDir) {
+    return new ReplayProvider(replayDir, name, model);
+  }
+
+  const provider = createBaseProvider(name, model);
+  const recordDir = config.getRecordDirectory();
+  return recordDir ? new RecordingProvider(provider, recordDir) : provider;
+}
+
+/**
+ * 创建主提供商和备用模型组成的提供商链，按顺序尝试
+ * @returns 提供商列表，第一个为主提供商
+ */
+export function createVisionProviderChain(): VisionProvider[] {
+  return [
+    createVisionProvider(),
+    ...getConfigManager()
+      .getFallbackModels()
+      .map((fallback) =>
+        createVisionProvider(fallback.provider, fallback.model),
+      ),
+  ];
+}
+
+/**
+ * 创建实际调用模型服务的提供商
+ * @param name - 提供商名称
+ * @param model - 模型名称
+ * @returns 提供商实例
+ */
+function createBaseProvider(
+  name: VisionProviderName,
+  model: string,
+): VisionProvider {
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(model);
+    case "openai":
+      return new OpenAIProvider(model);
+    case "ollama":
+      return new OllamaProvider(model);
+    default:
+      throw new Error(`不支持的提供商: ${name}`);
+  }
+}
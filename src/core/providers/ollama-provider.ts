@@ -0,0 +1,204 @@
+/**
+ * Ollama 提供商
+ * 调用本地 Ollama 服务的多模态模型，图像数据不会离开本机
+ */
+
+import { readFileSync } from "node:fs";
+import { getConfigManager } from "@/core/config";
+import { joinUrl, requestJson } from "@/core/providers/http-client";
+import {
+  formatRequestParts,
+  parseResultsText,
+} from "@/core/providers/response-schema";
+import type {
+  OllamaProviderOptions,
+  ProviderAnalysisRequest,
+  ProviderAnalysisResponse,
+  ProviderTestResult,
+  VisionProvider,
+} from "@/types";
+import { progressLogger } from "@/utils/progress-logger";
+
+/** /api/chat 响应 */
+interface OllamaChatResponse {
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/** /api/tags 响应 */
+interface OllamaTagsResponse {
+  models?: { name: string; model?: string }[];
+}
+
+/** /api/show 响应 */
+interface OllamaShowResponse {
+  capabilities?: string[];
+  details?: { families?: string[] | null };
+  projector_info?: Record<string, unknown>;
+}
+
+export class OllamaProvider implements VisionProvider {
+  public readonly name = "ollama" as const;
+  /** 视觉模型常见的模型族（旧版本 Ollama 没有 capabilities 字段） */
+  private static readonly VISION_FAMILIES = ["clip", "mllama"];
+  /** 提供商配置 */
+  private options: OllamaProviderOptions;
+
+  /** 使用的模型 */
+  public readonly model: string;
+
+  /**
+   * @param model - 使用的模型，默认为配置中的模型
+   */
+  constructor(model?: string) {
+    this.options = getConfigManager().getOllamaConfig();
+    this.model = model || this.options.model;
+  }
+
+  /**
+   * 分析一组图像
+   * @param request - 分析请求
+   * @returns 分析响应
+   */
+  public async analyzeImages(
+    request: ProviderAnalysisRequest,
+  ): Promise<ProviderAnalysisResponse> {
+    const config = getConfigManager();
+
+    const result = await requestJson<OllamaChatResponse>(
+      joinUrl(this.options.baseUrl, "api/chat"),
+      {
+        method: "POST",
+        body: {
+          model: this.model,
+          // 同一条消息内无法穿插文本和图像，每个对象单独一条消息，
+          // 标注文本依次列出各帧，图像按相同顺序附在消息中
+          messages: [
+            { role: "user", content: request.prompt },
+            ...formatRequestParts(request.items).map((parts) => ({
+              role: "user",
+              content: parts
+                .flatMap((part) => ("text" in part ? [part.text] : []))
+                .join("\n"),
+              images: parts.flatMap((part) =>
+                "imagePath" in part
+                  ? [readFileSync(part.imagePath).toString("base64")]
+                  : [],
+              ),
+            })),
+          ],
+          // 传入 JSON Schema 时 Ollama 会按结构约束输出
+          format: request.responseSchema,
+          stream: false,
+        },
+      },
+    );
+    const text = result.message?.content || "";
+
+    if (config.isVerboseMode()) {
+      progressLogger.info(
+        `AI 使用情况: 输入 ${result.prompt_eval_count ?? "-"} tokens，输出 ${result.eval_count ?? "-"} tokens`,
+      );
+      progressLogger.info(`AI 响应: ${text}`);
+    }
+
+    return {
+      results: parseResultsText(text),
+      rawText: text,
+      usage: {
+        promptTokens: result.prompt_eval_count ?? 0,
+        outputTokens: result.eval_count ?? 0,
+      },
+    };
+  }
+
+  /**
+   * 测试本地服务，检查模型是否已下载且支持视觉输入
+   * @returns 测试结果
+   */
+  public async testConnection(): Promise<ProviderTestResult> {
+    const { model } = this;
+
+    try {
+      const installed = await this.listModels();
+      const details = [`Ollama 服务可用: ${this.options.baseUrl}`];
+
+      if (!this.isModelInstalled(installed, model)) {
+        return {
+          success: false,
+          model,
+          error: `模型 ${model} 尚未下载，请先运行: ollama pull ${model}`,
+          details,
+        };
+      }
+      details.push(`模型已下载: ${model}`);
+
+      const show = await requestJson<OllamaShowResponse>(
+        joinUrl(this.options.baseUrl, "api/show"),
+        { method: "POST", body: { model } },
+      );
+
+      if (!this.supportsVision(show)) {
+        return {
+          success: false,
+          model,
+          error: `模型 ${model} 不支持图像输入，请选择视觉模型（如 llava、qwen2.5vl）`,
+          details,
+        };
+      }
+      details.push("模型支持视觉输入");
+
+      return { success: true, model, details };
+    } catch (error) {
+      return {
+        success: false,
+        model,
+        error: `无法连接 Ollama 服务 (${this.options.baseUrl}): ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * 列出本地已下载的模型
+   * @returns 模型名称列表
+   */
+  public async listModels(): Promise<string[]> {
+    const result = await requestJson<OllamaTagsResponse>(
+      joinUrl(this.options.baseUrl, "api/tags"),
+    );
+
+    return (result.models || []).map((model) => model.name);
+  }
+
+  /**
+   * 检查模型是否已下载（未指定标签时默认匹配 latest）
+   * @param installed - 已下载的模型列表
+   * @param model - 模型名称
+   * @returns 是否已下载
+   */
+  private isModelInstalled(installed: string[], model: string): boolean {
+    const normalized = model.includes(":") ? model : `${model}:latest`;
+    return installed.includes(model) || installed.includes(normalized);
+  }
+
+  /**
+   * 检查模型是否支持视觉输入
+   * @param show - /api/show 响应
+   * @returns 是否支持
+   */
+  private supportsVision(show: OllamaShowResponse): boolean {
+    if (show.capabilities) {
+      return show.capabilities.includes("vision");
+    }
+
+    return (
+      !!show.projector_info ||
+      (show.details?.families || []).some((family) =>
+        OllamaProvider.VISION_FAMILIES.includes(family),
+      )
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { getConfigManager } from "@/core/config";
+import { OpenAIProvider } from "@/core/providers/openai-provider";
+import { ANALYSIS_RESPONSE_SCHEMA } from "@/core/providers/response-schema";
+import { ProviderError } from "@/errors/provider-error";
+import {
+  createSolidImage,
+  createTempDir,
+  type StubResponse,
+  startStubServer,
+} from "@/test/helpers";
+
+describe("OpenAIProvider", () => {
+  const temp = createTempDir();
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+  let nextResponse: StubResponse;
+  let imagePath: string;
+
+  before(async () => {
+    imagePath = await createSolidImage(join(temp.dir, "a.jpg"), {
+      r: 200,
+      g: 0,
+      b: 0,
+    });
+    stub = await startStubServer((request) =>
+      request.url === "/v1/models"
+        ? { body: { data: [{ id: "stub-vision" }, { id: "stub-text" }] } }
+        : nextResponse,
+    );
+    getConfigManager().setOpenAIConfig({
+      baseUrl: `${stub.url}/v1/`,
+      apiKey: "test-key",
+      model: "stub-vision",
+    });
+  });
+
+  after(async () => {
+    await stub.close();
+    temp.cleanup();
+  });
+
+  it("发送带图像 ID 和响应结构的 chat/completions 请求并解析结果", async () => {
+    nextResponse = {
+      body: {
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                results: [{ id: "item_1", filename: "red-square" }],
+              }),
+            },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 120, completion_tokens: 15 },
+      },
+    };
+
+    const response = await new OpenAIProvider().analyzeImages({
+      prompt: "请命名",
+      items: [{ id: "item_1", frames: [{ path: imagePath }] }],
+      responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+    });
+
+    assert.deepEqual(response.results, [
+      { id: "item_1", filename: "red-square" },
+    ]);
+    assert.deepEqual(response.usage, { promptTokens: 120, outputTokens: 15 });
+
+    const request = stub.requests.at(-1);
+    assert.equal(request?.url, "/v1/chat/completions");
+    assert.equal(request?.headers.authorization, "Bearer test-key");
+
+    const body = request?.body as {
+      model: string;
+      messages: {
+        content: { type: string; text?: string; image_url?: { url: string } }[];
+      }[];
+      response_format: { type: string; json_schema: { schema: unknown } };
+    };
+    assert.equal(body.model, "stub-vision");
+    assert.equal(body.response_format.type, "json_schema");
+    assert.deepEqual(
+      body.response_format.json_schema.schema,
+      ANALYSIS_RESPONSE_SCHEMA,
+    );
+
+    const [content] = body.messages.map((message) => message.content);
+    assert.equal(content[0].text, "请命名");
+    assert.ok(content.some((part) => part.text?.includes("item_1")));
+    assert.ok(
+      content.some((part) =>
+        part.image_url?.url.startsWith("data:image/jpeg;base64,"),
+      ),
+    );
+  });
+
+  it("HTTP 错误转换为带状态码和重试等待时间的提供商错误", async () => {
+    nextResponse = {
+      status: 429,
+      headers: { "Retry-After": "2" },
+      body: { error: { message: "rate limited" } },
+    };
+
+    await assert.rejects(
+      new OpenAIProvider().analyzeImages({
+        prompt: "请命名",
+        items: [{ id: "item_1", frames: [{ path: imagePath }] }],
+        responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+      }),
+      (error: unknown) => {
+        assert.ok(error instanceof ProviderError);
+        assert.equal(error.kind, "transient");
+        assert.equal(error.status, 429);
+        assert.equal(error.retryAfterMs, 2000);
+        return true;
+      },
+    );
+  });
+
+  it("内容被拦截时返回不可重试的错误", async () => {
+    nextResponse = {
+      body: {
+        choices: [
+          { message: { content: "" }, finish_reason: "content_filter" },
+        ],
+      },
+    };
+
+    await assert.rejects(
+      new OpenAIProvider().analyzeImages({
+        prompt: "请命名",
+        items: [{ id: "item_1", frames: [{ path: imagePath }] }],
+        responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+      }),
+      (error: unknown) =>
+        error instanceof ProviderError && error.kind === "blocked",
+    );
+  });
+
+  it("列出服务端提供的模型", async () => {
+    assert.deepEqual(await new OpenAIProvider().listModels(), [
+      "stub-vision",
+      "stub-text",
+    ]);
+  });
+});
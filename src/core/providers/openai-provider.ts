@@ -0,0 +1,197 @@
+/**
+ * OpenAI 兼容提供商
+ * 调用任意兼容 OpenAI /v1/chat/completions 接口的服务（vLLM、LM Studio、LiteLLM 等）
+ */
+
+import { readFileSync } from "node:fs";
+import { getConfigManager } from "@/core/config";
+import { joinUrl, requestJson } from "@/core/providers/http-client";
+import {
+  formatRequestParts,
+  parseResultsText,
+} from "@/core/providers/response-schema";
+import { ProviderError } from "@/errors/provider-error";
+import type {
+  OpenAIProviderOptions,
+  ProviderAnalysisRequest,
+  ProviderAnalysisResponse,
+  ProviderTestResult,
+  VisionProvider,
+} from "@/types";
+import { FileUtils } from "@/utils/file-utils";
+import { progressLogger } from "@/utils/progress-logger";
+
+/** chat/completions 消息内容片段 */
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+/** chat/completions 响应 */
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { content?: string | null };
+    finish_reason?: string;
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+export class OpenAIProvider implements VisionProvider {
+  public readonly name = "openai" as const;
+  /** 提供商配置 */
+  private options: OpenAIProviderOptions;
+  /** 使用的模型 */
+  public readonly model: string;
+
+  /**
+   * @param model - 使用的模型，默认为配置中的模型
+   */
+  constructor(model?: string) {
+    this.options = getConfigManager().getOpenAIConfig();
+    this.model = model || this.options.model;
+
+    if (!this.options.baseUrl) {
+      throw new Error("OpenAI 兼容接口的 Base URL 未配置");
+    }
+  }
+
+  /**
+   * 分析一组图像
+   * @param request - 分析请求
+   * @returns 分析响应
+   */
+  public async analyzeImages(
+    request: ProviderAnalysisRequest,
+  ): Promise<ProviderAnalysisResponse> {
+    const config = getConfigManager();
+
+    // 使用 data URI 传递图像，标注文本与图像按顺序穿插
+    const content: ChatContentPart[] = [
+      { type: "text", text: request.prompt },
+      ...formatRequestParts(request.items)
+        .flat()
+        .map(
+          (part): ChatContentPart =>
+            "text" in part
+              ? { type: "text", text: part.text }
+              : {
+                  type: "image_url",
+                  image_url: {
+                    url: `data:${FileUtils.getMimeType(part.imagePath)};base64,${readFileSync(
+                      part.imagePath,
+                    ).toString("base64")}`,
+                  },
+                },
+        ),
+    ];
+
+    const result = await this.chat(content, {
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "analysis_results",
+          schema: request.responseSchema,
+        },
+      },
+    });
+    const choice = result.choices?.[0];
+
+    if (choice?.finish_reason === "content_filter") {
+      throw new ProviderError("内容被安全策略拦截: content_filter", "blocked");
+    }
+
+    const text = choice?.message?.content || "";
+
+    if (config.isVerboseMode()) {
+      progressLogger.info(
+        `AI 使用情况: ${JSON.stringify(result.usage, null, 2)}`,
+      );
+      progressLogger.info(`AI 响应: ${text}`);
+    }
+
+    return {
+      results: parseResultsText(text),
+      rawText: text,
+      usage: result.usage && {
+        promptTokens: result.usage.prompt_tokens ?? 0,
+        outputTokens: result.usage.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  /**
+   * 测试 API 连接
+   * @returns 测试结果
+   */
+  public async testConnection(): Promise<ProviderTestResult> {
+    try {
+      await this.chat(
+        [
+          {
+            type: "text",
+            text: 'Hello, this is a test message. Please respond with "Test successful".',
+          },
+        ],
+        { max_tokens: 16 },
+      );
+
+      return { success: true, model: this.model };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * 列出服务端提供的模型
+   * @returns 模型名称列表
+   */
+  public async listModels(): Promise<string[]> {
+    const result = await requestJson<{ data?: { id: string }[] }>(
+      joinUrl(this.options.baseUrl, "models"),
+      { headers: this.getHeaders() },
+    );
+
+    return (result.data || []).map((model) => model.id);
+  }
+
+  /**
+   * 发送 chat/completions 请求
+   * @param content - 用户消息内容
+   * @param options - 额外的请求参数（如 max_tokens、response_format）
+   * @returns 接口响应
+   */
+  private async chat(
+    content: ChatContentPart[],
+    options: Record<string, unknown> = {},
+  ): Promise<ChatCompletionResponse> {
+    return requestJson<ChatCompletionResponse>(
+      joinUrl(this.options.baseUrl, "chat/completions"),
+      {
+        method: "POST",
+        headers: this.getHeaders(),
+        body: {
+          model: this.model,
+          messages: [{ role: "user", content }],
+          ...options,
+        },
+      },
+    );
+  }
+
+  /**
+   * 获取请求头
+   * @returns 请求头
+   */
+  private getHeaders(): Record<string, string> {
+    // 本地服务通常不需要 API Key
+    return this.options.apiKey
+      ? { Authorization: `Bearer ${this.options.apiKey}` }
+      : {};
+  }
+}
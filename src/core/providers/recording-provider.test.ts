@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { RecordingProvider } from "@/core/providers/recording-provider";
+import { ReplayProvider } from "@/core/providers/replay-provider";
+import { ANALYSIS_RESPONSE_SCHEMA } from "@/core/providers/response-schema";
+import { ProviderError } from "@/errors/provider-error";
+import {
+  createFakeProvider,
+  createSolidImage,
+  createTempDir,
+} from "@/test/helpers";
+import type { ProviderAnalysisRequest } from "@/types";
+
+describe("录制与回放", () => {
+  const temp = createTempDir();
+  const recordDir = join(temp.dir, "recordings");
+  let framePath: string;
+
+  /**
+   * 创建分析请求
+   * @param prompt - 提示词
+   * @returns 分析请求
+   */
+  function createRequest(prompt: string): ProviderAnalysisRequest {
+    return {
+      prompt,
+      items: [{ id: "item_1", frames: [{ path: framePath }] }],
+      responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+    };
+  }
+
+  before(async () => {
+    framePath = await createSolidImage(join(temp.dir, "frame.jpg"), {
+      r: 0,
+      g: 0,
+      b: 200,
+    });
+  });
+
+  after(() => temp.cleanup());
+
+  it("回放相同的请求得到录制时的结果", async () => {
+    const { provider } = createFakeProvider(() => [
+      { id: "item_1", filename: "blue", description: "蓝色", tags: ["蓝"] },
+    ]);
+    const recorded = await new RecordingProvider(
+      provider,
+      recordDir,
+    ).analyzeImages(createRequest("命名"));
+
+    const replay = new ReplayProvider(recordDir, provider.name, provider.model);
+    const replayed = await replay.analyzeImages(createRequest("命名"));
+
+    assert.deepEqual(replayed.results, recorded.results);
+    assert.equal(replayed.rawText, recorded.rawText);
+  });
+
+  it("指纹不同的请求抛出 not_recorded 错误", async () => {
+    const replay = new ReplayProvider(recordDir, "gemini", "fake-model");
+
+    await assert.rejects(replay.analyzeImages(createRequest("其他提示词")), {
+      name: "ProviderError",
+      kind: "not_recorded",
+    });
+  });
+
+  it("录制时请求失败的，回放时抛出相同的错误", async () => {
+    const { provider } = createFakeProvider(() => {
+      throw new ProviderError("HTTP 400: 请求过大", "invalid_request", {
+        status: 400,
+      });
+    });
+    const request = createRequest("失败的请求");
+
+    await assert.rejects(
+      new RecordingProvider(provider, recordDir).analyzeImages(request),
+      { kind: "invalid_request" },
+    );
+
+    const replay = new ReplayProvider(recordDir, provider.name, provider.model);
+    await assert.rejects(replay.analyzeImages(request), {
+      name: "ProviderError",
+      kind: "invalid_request",
+      message: "HTTP 400: 请求过大",
+      status: 400,
+    });
+  });
+});
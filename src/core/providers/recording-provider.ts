@@ -0,0 +1,171 @@
+/**
+ * 录制提供商
+ * 包装实际的提供商，把每次请求的指纹和原始响应（或错误）保存到录制目录，供 --replay 离线回放
+ */
+
+import { createHash } from "node:crypto";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getConfigManager } from "@/core/config";
+import { ProviderError } from "@/errors/provider-error";
+import type {
+  ProviderAnalysisRequest,
+  ProviderAnalysisResponse,
+  ProviderRecording,
+  ProviderTestResult,
+  VisionProvider,
+} from "@/types";
+import { FileUtils } from "@/utils/file-utils";
+import { progressLogger } from "@/utils/progress-logger";
+
+/**
+ * 生成请求指纹
+ * 帧图像位于随机命名的临时目录中，按文件内容而不是路径计算，保证相同输入得到相同指纹
+ * @param request - 分析请求
+ * @param provider - 处理请求的提供商
+ * @returns 请求指纹
+ */
+export async function createRequestFingerprint(
+  request: ProviderAnalysisRequest,
+  provider: Pick<VisionProvider, "name" | "model">,
+): Promise<string> {
+  const items = await Promise.all(
+    request.items.map(async (item) => ({
+      id: item.id,
+      context: item.context,
+      fileContext: item.fileContext,
+      frames: await Promise.all(
+        item.frames.map(async (frame) => ({
+          hash: await FileUtils.hashFile(frame.path),
+          timestamp: frame.timestamp,
+        })),
+      ),
+    })),
+  );
+
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        provider.name,
+        provider.model,
+        request.prompt,
+        items,
+        request.responseSchema,
+      ]),
+    )
+    .digest("hex");
+}
+
+/**
+ * 获取录制文件路径
+ * @param directory - 录制目录
+ * @param fingerprint - 请求指纹
+ * @returns 录制文件路径
+ */
+export function getRecordingPath(
+  directory: string,
+  fingerprint: string,
+): string {
+  return join(directory, `${fingerprint}.json`);
+}
+
+export class RecordingProvider implements VisionProvider {
+  public readonly name: VisionProvider["name"];
+  public readonly model: string;
+  /** 实际发送请求的提供商 */
+  private provider: VisionProvider;
+  /** 录制目录 */
+  private directory: string;
+
+  /**
+   * @param provider - 实际发送请求的提供商
+   * @param directory - 录制目录
+   */
+  constructor(provider: VisionProvider, directory: string) {
+    this.provider = provider;
+    this.directory = directory;
+    this.name = provider.name;
+    this.model = provider.model;
+  }
+
+  /**
+   * 分析一组图像，保存原始响应；请求失败时保存错误，回放时按原样抛出，使拆分重试的过程相同
+   * @param request - 分析请求
+   * @returns 分析响应
+   */
+  public async analyzeImages(
+    request: ProviderAnalysisRequest,
+  ): Promise<ProviderAnalysisResponse> {
+    let response: ProviderAnalysisResponse;
+    try {
+      response = await this.provider.analyzeImages(request);
+    } catch (error) {
+      const providerError = ProviderError.from(error);
+      await this.save(request, {
+        error: {
+          kind: providerError.kind,
+          message: providerError.message,
+          status: providerError.status,
+          retryAfterMs: providerError.retryAfterMs,
+        },
+      });
+      throw providerError;
+    }
+
+    await this.save(request, {
+      response: { rawText: response.rawText, usage: response.usage },
+    });
+    return response;
+  }
+
+  /**
+   * 保存一次请求的录制
+   * @param request - 分析请求
+   * @param outcome - 原始响应或错误
+   */
+  private async save(
+    request: ProviderAnalysisRequest,
+    outcome: Pick<ProviderRecording, "response" | "error">,
+  ): Promise<void> {
+    try {
+      const fingerprint = await createRequestFingerprint(request, this);
+      const recording: ProviderRecording = {
+        fingerprint,
+        provider: this.name,
+        model: this.model,
+        recordedAt: new Date().toISOString(),
+        itemIds: request.items.map((item) => item.id),
+        ...outcome,
+      };
+
+      mkdirSync(this.directory, { recursive: true });
+      writeFileSync(
+        getRecordingPath(this.directory, fingerprint),
+        JSON.stringify(recording, null, 2),
+      );
+      if (getConfigManager().isVerboseMode()) {
+        progressLogger.info(
+          `已录制${outcome.error ? "错误" : "响应"}: ${fingerprint}`,
+        );
+      }
+    } catch (error) {
+      progressLogger.warn(`保存录制的响应失败: ${error}`);
+    }
+  }
+
+  /**
+   * 测试连接
+   * @returns 测试结果
+   */
+  public testConnection(): Promise<ProviderTestResult> {
+    return this.provider.testConnection();
+  }
+
+  /**
+   * 列出可用模型
+   * @returns 模型名称列表
+   */
+  public listModels(): Promise<string[]> {
+    return this.provider.listModels();
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * 回放提供商
+ * 从 --record 录制的目录中按请求指纹读取原始响应，不调用模型服务，用于离线、可重复的运行
+ */
+
+import { readFileSync } from "node:fs";
+import { getConfigManager } from "@/core/config";
+import {
+  createRequestFingerprint,
+  getRecordingPath,
+} from "@/core/providers/recording-provider";
+import { parseResultsText } from "@/core/providers/response-schema";
+import { ProviderError } from "@/errors/provider-error";
+import type {
+  ProviderAnalysisRequest,
+  ProviderAnalysisResponse,
+  ProviderRecording,
+  ProviderTestResult,
+  VisionProvider,
+  VisionProviderName,
+} from "@/types";
+import { FileUtils } from "@/utils/file-utils";
+import { progressLogger } from "@/utils/progress-logger";
+
+export class ReplayProvider implements VisionProvider {
+  public readonly name: VisionProvider["name"];
+  public readonly model: string;
+  /** 录制目录 */
+  private directory: string;
+
+  /**
+   * @param directory - 录制目录
+   * @param name - 录制时使用的提供商
+   * @param model - 录制时使用的模型
+   */
+  constructor(directory: string, name: VisionProviderName, model: string) {
+    this.directory = directory;
+    this.name = name;
+    this.model = model;
+  }
+
+  /**
+   * 返回录制的响应，录制时请求失败的抛出相同的错误
+   * @param request - 分析请求
+   * @returns 分析响应
+   */
+  public async analyzeImages(
+    request: ProviderAnalysisRequest,
+  ): Promise<ProviderAnalysisResponse> {
+    const fingerprint = await createRequestFingerprint(request, this);
+    const recordingPath = getRecordingPath(this.directory, fingerprint);
+
+    if (!FileUtils.fileExists(recordingPath)) {
+      throw new ProviderError(
+        `没有找到录制的响应 (指纹 ${fingerprint})，请求内容或配置与录制时不同，请先使用 --record ${this.directory} 重新录制`,
+        "not_recorded",
+      );
+    }
+
+    let recording: ProviderRecording;
+    try {
+      recording = JSON.parse(readFileSync(recordingPath, "utf-8"));
+    } catch (error) {
+      throw new ProviderError(
+        `读取录制的响应失败: ${recordingPath}`,
+        "not_recorded",
+        { cause: error },
+      );
+    }
+
+    // 录制时请求失败的，回放时抛出相同的错误
+    if (recording.error) {
+      const { message, kind, status, retryAfterMs } = recording.error;
+      if (getConfigManager().isVerboseMode()) {
+        progressLogger.info(`回放录制的错误: ${fingerprint}`);
+      }
+      throw new ProviderError(message, kind, { status, retryAfterMs });
+    }
+    if (!recording.response) {
+      throw new ProviderError(
+        `录制的响应不完整: ${recordingPath}`,
+        "not_recorded",
+      );
+    }
+
+    const { rawText, usage } = recording.response;
+    if (getConfigManager().isVerboseMode()) {
+      progressLogger.info(`回放录制的响应: ${fingerprint}`);
+      progressLogger.info(`AI 响应: ${rawText}`);
+    }
+
+    return { results: parseResultsText(rawText), rawText, usage };
+  }
+
+  /**
+   * 回放模式不连接模型服务，只检查录制目录
+   * @returns 测试结果
+   */
+  public async testConnection(): Promise<ProviderTestResult> {
+    if (!FileUtils.isDirectory(this.directory)) {
+      return {
+        success: false,
+        error: `录制目录不存在: ${this.directory}`,
+      };
+    }
+
+    return {
+      success: true,
+      model: this.model,
+      details: [`回放模式，不连接模型服务，响应来自: ${this.directory}`],
+    };
+  }
+
+  /**
+   * 回放模式无法列出模型
+   * @returns 空列表
+   */
+  public async listModels(): Promise<string[]> {
+    return [];
+  }
+}
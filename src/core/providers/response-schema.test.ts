@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateAnalysisItems } from "@/core/providers/response-schema";
+
+describe("validateAnalysisItems", () => {
+  it("按图像 ID 关联结果，并去除首尾空白", () => {
+    const { valid, missing } = validateAnalysisItems(
+      [
+        {
+          id: " item_2 ",
+          filename: " beach-sunset ",
+          description: " 海边日落 ",
+          tags: [" 海边 ", "", "日落"],
+          category: "风景",
+        },
+        { id: "item_1", filename: "cat" },
+      ],
+      ["item_1", "item_2"],
+    );
+
+    assert.deepEqual(missing, []);
+    assert.deepEqual(valid.get("item_2"), {
+      id: "item_2",
+      filename: "beach-sunset",
+      description: "海边日落",
+      tags: ["海边", "日落"],
+      category: "风景",
+    });
+    assert.deepEqual(valid.get("item_1"), {
+      id: "item_1",
+      filename: "cat",
+      description: "",
+      tags: [],
+      category: "",
+    });
+  });
+
+  it("未知 ID、重复 ID、空文件名和类型错误的结果需要重新请求", () => {
+    const { valid, missing } = validateAnalysisItems(
+      [
+        { id: "item_9", filename: "unknown" },
+        { id: "item_1", filename: "first" },
+        { id: "item_1", filename: "duplicate" },
+        { id: "item_2", filename: "  " },
+        { id: "item_3", filename: "tags", tags: "not-an-array" },
+        { id: "item_4", filename: "category", category: 1 },
+        { filename: "no-id" },
+      ],
+      ["item_1", "item_2", "item_3", "item_4"],
+    );
+
+    assert.deepEqual([...valid.keys()], ["item_1"]);
+    assert.equal(valid.get("item_1")?.filename, "first");
+    assert.deepEqual(missing, ["item_2", "item_3", "item_4"]);
+  });
+
+  it("整个响应不符合结构时所有图像都需要重新请求", () => {
+    const { valid, missing } = validateAnalysisItems(null, [
+      "item_1",
+      "item_2",
+    ]);
+
+    assert.equal(valid.size, 0);
+    assert.deepEqual(missing, ["item_1", "item_2"]);
+  });
+});
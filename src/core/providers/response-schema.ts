@@ -0,0 +1,251 @@
+/**
+ * 响应结构定义与校验
+ * 提供发送给模型的 JSON Schema，并按同一结构校验模型返回的结果
+ */
+
+import type {
+  AnalysisItem,
+  ContactSheetLayout,
+  LabeledItem,
+  RawAnalysisItem,
+} from "@/types";
+import { progressLogger } from "@/utils/progress-logger";
+
+/** 分析响应的 JSON Schema，供支持结构化输出的提供商使用 */
+export const ANALYSIS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "图像或视频前标注的 ID，必须原样返回",
+          },
+          filename: {
+            type: "string",
+            description: "建议的文件名（不包含扩展名）",
+          },
+          description: {
+            type: "string",
+            description: "一句话描述内容",
+          },
+          tags: {
+            type: "array",
+            items: { type: "string" },
+            description: "标签列表（3-5 个关键词）",
+          },
+          category: {
+            type: "string",
+            description: "内容类别（如 风景、人物、美食、文档、截图）",
+          },
+        },
+        required: ["id", "filename", "description", "tags", "category"],
+      },
+    },
+  },
+  required: ["results"],
+} as const;
+
+/** 分析对象的请求片段：标注文本或图像 */
+export type ItemPart = { text: string } | { imagePath: string };
+
+/**
+ * 格式化视频时间点
+ * @param seconds - 秒数
+ * @returns mm:ss 或 h:mm:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+}
+
+/**
+ * 生成一次请求中各分析对象的请求片段
+ * 多个对象共用的拼接图只在第一次出现时附上，之后的对象只引用其中的格子
+ * @param items - 分析对象列表
+ * @returns 各对象按顺序排列的请求片段，与 items 一一对应
+ */
+export function formatRequestParts(items: LabeledItem[]): ItemPart[][] {
+  const sentSheets = new Set<string>();
+  return items.map((item) => formatItemParts(item, sentSheets));
+}
+
+/**
+ * 描述拼接图的网格布局
+ * @param sheet - 网格布局
+ * @returns 布局说明
+ */
+function describeSheet(sheet: ContactSheetLayout): string {
+  return `${sheet.columns} 列 × ${sheet.rows} 行的网格图，按从左到右、从上到下的顺序排列`;
+}
+
+/**
+ * 生成分析对象的请求片段
+ * 单张图片为 ID 标注 + 图像；视频为 ID 标注 + 按时间顺序排列的帧，每帧前标注序号和时间点
+ * 视频各帧拼接为网格图时只附一张图像，并说明网格布局；多张小图共用拼接图时标注对象所在的格子
+ * 开启文件信息注入时，文件信息紧跟在对象的 ID 标注之后
+ * @param item - 分析对象
+ * @param sentSheets - 本次请求中已经附上的拼接图
+ * @returns 按顺序排列的请求片段
+ */
+function formatItemParts(
+  item: LabeledItem,
+  sentSheets: Set<string>,
+): ItemPart[] {
+  const [firstFrame] = item.frames;
+  const isSingleImage =
+    item.frames.length === 1 &&
+    firstFrame.timestamp === undefined &&
+    !item.context;
+
+  if (isSingleImage && firstFrame.sheet?.cell !== undefined) {
+    const { sheet } = firstFrame;
+    const label = `图像 ID: ${item.id}（拼接图第 ${sheet.cell} 格）`;
+    const text = item.fileContext ? `${label}\n${item.fileContext}` : label;
+    if (sentSheets.has(firstFrame.path)) {
+      return [{ text }];
+    }
+
+    sentSheets.add(firstFrame.path);
+    return [
+      {
+        text: `拼接图: ${sheet.labels.length} 张图像拼接为 ${describeSheet(sheet)}，每格左上角标注图像 ID`,
+      },
+      { imagePath: firstFrame.path },
+      { text },
+    ];
+  }
+
+  if (isSingleImage) {
+    return [
+      {
+        text: item.fileContext
+          ? `图像 ID: ${item.id}\n${item.fileContext}`
+          : `图像 ID: ${item.id}`,
+      },
+      { imagePath: firstFrame.path },
+    ];
+  }
+
+  const sheet = item.frames.length === 1 ? firstFrame.sheet : undefined;
+  const header = [
+    sheet
+      ? `视频 ID: ${item.id}（${sheet.labels.length} 帧按时间顺序拼接为 ${describeSheet(sheet)}，每格左上角标注帧序号和时间点）`
+      : item.frames.length > 0
+        ? `视频 ID: ${item.id}（${item.frames.length} 帧，按时间顺序排列）`
+        : `视频 ID: ${item.id}`,
+  ];
+  if (item.fileContext) {
+    header.push(item.fileContext);
+  }
+  if (item.context) {
+    header.push(item.context);
+  }
+
+  if (sheet) {
+    return [{ text: header.join("\n") }, { imagePath: firstFrame.path }];
+  }
+
+  return [
+    { text: header.join("\n") },
+    ...item.frames.flatMap((frame, index): ItemPart[] => [
+      {
+        text:
+          frame.timestamp === undefined
+            ? `帧 ${index + 1}`
+            : `帧 ${index + 1} @ ${formatTimestamp(frame.timestamp)}`,
+      },
+      { imagePath: frame.path },
+    ]),
+  ];
+}
+
+/**
+ * 解析模型返回的 JSON 文本
+ * @param responseText - 模型返回的文本
+ * @returns 原始结果列表，不符合响应结构时返回 null
+ */
+export function parseResultsText(
+  responseText: string,
+): RawAnalysisItem[] | null {
+  try {
+    const parsed = JSON.parse(responseText);
+    if (!Array.isArray(parsed?.results)) {
+      progressLogger.warn("AI 响应缺少 results 数组");
+      return null;
+    }
+    return parsed.results;
+  } catch (error) {
+    progressLogger.warn(`AI 响应不是有效的 JSON: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * 按响应结构校验模型返回的结果，并按图像 ID 关联
+ * @param items - 原始结果列表，为 null 表示整个响应不符合结构
+ * @param imageIds - 请求中的图像 ID 列表
+ * @returns 有效结果（按图像 ID 索引）和缺少有效结果、需要重新请求的图像 ID
+ */
+export function validateAnalysisItems(
+  items: RawAnalysisItem[] | null,
+  imageIds: string[],
+): {
+  valid: Map<string, AnalysisItem>;
+  missing: string[];
+} {
+  const valid = new Map<string, AnalysisItem>();
+  const expectedIds = new Set(imageIds);
+  let invalidCount = 0;
+
+  for (const item of items ?? []) {
+    const id = typeof item?.id === "string" ? item.id.trim() : "";
+    const filename =
+      typeof item?.filename === "string" ? item.filename.trim() : "";
+
+    // 描述、标签和类别缺失时使用默认值，只有类型错误才视为无效，
+    // 避免不支持结构化输出的模型因缺少可选内容而反复重新请求
+    const isValid =
+      expectedIds.has(id) &&
+      !valid.has(id) &&
+      filename !== "" &&
+      (item.description === undefined ||
+        typeof item.description === "string") &&
+      (item.tags === undefined ||
+        (Array.isArray(item.tags) &&
+          item.tags.every((tag) => typeof tag === "string"))) &&
+      (item.category === undefined || typeof item.category === "string");
+
+    if (!isValid) {
+      invalidCount++;
+      continue;
+    }
+
+    valid.set(id, {
+      id,
+      filename,
+      description: (item.description as string | undefined)?.trim() || "",
+      tags: ((item.tags as string[] | undefined) || [])
+        .map((tag) => tag.trim())
+        .filter((tag) => tag !== ""),
+      category: (item.category as string | undefined)?.trim() || "",
+    });
+  }
+
+  if (invalidCount > 0) {
+    progressLogger.warn(`忽略 ${invalidCount} 个未通过校验的结果`);
+  }
+
+  // 缺失、无效或 ID 无法识别的图像都需要重新请求
+  return {
+    valid,
+    missing: imageIds.filter((id) => !valid.has(id)),
+  };
+}
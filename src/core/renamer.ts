@@ -7,9 +7,11 @@ import { dirname, join } from "node:path";
 import { AIAnalyzer, AIBatchProcessor } from "@/core/ai-analyzer";
 import { getConfigManager } from "@/core/config";
 import { MediaBatchProcessor } from "@/core/media-batch-processor";
+import { createVisionProviderChain } from "@/core/providers";
 import { VideoProcessor } from "@/core/video-processor";
 import type { AnalysisResult, MixedBatchStats, RenameResult } from "@/types";
 import { FileUtils } from "@/utils/file-utils";
+import { Romanizer } from "@/utils/romanizer";
 import { TemplateResolver } from "@/utils/template-resolver";
 
 export class SmartRenamer {
@@ -25,10 +27,13 @@ export class SmartRenamer {
   private renameHistory: RenameResult[] = [];
 
   constructor() {
-    this.analyzer = new AIAnalyzer();
-    this.batchProcessor = new AIBatchProcessor();
+    // 所有分析组件共享同一组提供商实例
+    const providers = createVisionProviderChain();
+
+    this.analyzer = new AIAnalyzer(providers);
+    this.batchProcessor = new AIBatchProcessor(providers);
     this.videoProcessor = new VideoProcessor();
-    this.mediaBatchProcessor = new MediaBatchProcessor();
+    this.mediaBatchProcessor = new MediaBatchProcessor(providers);
   }
 
   /**
@@ -72,7 +77,7 @@ export class SmartRenamer {
       const targetDir = outputDir || dirname(filePath);
       const newFilePath = await this.generateNewFilePath(
         targetDir,
-        analysisResult.suggestedName,
+        analysisResult,
         fileInfo.extension,
         filePath,
       );
@@ -125,6 +130,7 @@ export class SmartRenamer {
           suggestedName: "error",
           description: "分析失败",
           tags: [],
+          category: "未分类",
           timestamp: Date.now(),
           filename: "error",
         },
@@ -196,6 +202,7 @@ export class SmartRenamer {
               suggestedName: fileInfo.name,
               description: "分析失败",
               tags: [],
+              category: "未分类",
               timestamp: Date.now(),
               filename: fileInfo.name,
             },
@@ -261,33 +268,26 @@ export class SmartRenamer {
       console.log(`提取了 ${frameInfo.framePaths.length} 帧`);
     }
 
-    // 分析提取的帧
-    const analysisResult = await this.analyzer.analyzeImage(
-      frameInfo.framePaths[0],
-    );
-
-    // 更新原始路径
-    analysisResult.originalPath = videoPath;
-
-    return analysisResult;
+    // 所有帧作为一个整体分析，为整个视频命名
+    return this.analyzer.analyzeVideo(frameInfo);
   }
 
   /**
    * 生成新的文件路径
    * @param targetDir - 目标目录
-   * @param suggestedName - 建议的文件名
+   * @param analysisResult - 分析结果（提供建议的文件名和模板变量）
    * @param extension - 文件扩展名
    * @param originalFilePath - 原始文件路径
    * @returns 新文件路径
    */
   private async generateNewFilePath(
     targetDir: string,
-    suggestedName: string,
+    analysisResult: AnalysisResult,
     extension: string,
     originalFilePath: string,
   ): Promise<string> {
     const config = getConfigManager();
-    let finalName = suggestedName;
+    let finalName = analysisResult.suggestedName;
 
     // 如果配置了文件名模板，使用模板解析
     if (config.isFilenameTemplateEnabled()) {
@@ -295,17 +295,24 @@ export class SmartRenamer {
       if (templateConfig.template) {
         finalName = await TemplateResolver.resolveTemplate(
           templateConfig.template,
-          suggestedName,
+          analysisResult,
           originalFilePath,
           templateConfig,
         );
       }
     }
 
+    // 需要纯 ASCII 文件名时将中文转换为拼音
+    if (config.getPromptConfig().romanize) {
+      finalName = FileUtils.sanitizeFilename(Romanizer.toPinyin(finalName));
+    }
+
     const uniqueName = FileUtils.generateUniqueFilename(
       targetDir,
       finalName,
       extension,
+      undefined,
+      config.getFilenameStyle(),
     );
     return join(targetDir, `${uniqueName}.${extension}`);
   }
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ResultCache } from "@/core/result-cache";
+import { createTempDir } from "@/test/helpers";
+import type { AnalysisResult } from "@/types";
+
+/**
+ * 创建分析结果
+ * @param overrides - 覆盖的字段
+ * @returns 分析结果
+ */
+function createResult(overrides: Partial<AnalysisResult> = {}): AnalysisResult {
+  return {
+    originalPath: "/photos/IMG_0001.jpg",
+    suggestedName: "beach-sunset",
+    description: "海边日落",
+    tags: ["海边"],
+    category: "风景",
+    timestamp: 1,
+    filename: "beach-sunset",
+    provider: "gemini",
+    model: "gemini-2.5-flash",
+    fallback: false,
+    ...overrides,
+  };
+}
+
+describe("ResultCache", () => {
+  let temp: ReturnType<typeof createTempDir>;
+  let cachePath: string;
+
+  beforeEach(() => {
+    temp = createTempDir();
+    cachePath = join(temp.dir, "result-cache.json");
+  });
+
+  afterEach(() => temp.cleanup());
+
+  it("写入先保存在内存中，flush 后一次性写入文件", () => {
+    const cache = new ResultCache(cachePath);
+
+    cache.set("a", createResult());
+    cache.set("b", createResult({ filename: "mountain" }));
+    assert.equal(existsSync(cachePath), false);
+    assert.equal(cache.get("a", "/other/a.jpg")?.filename, "beach-sunset");
+
+    cache.flush();
+    assert.deepEqual(readdirSync(temp.dir), ["result-cache.json"]);
+
+    const reloaded = new ResultCache(cachePath);
+    assert.equal(reloaded.getStats().entries, 2);
+    assert.equal(
+      reloaded.get("b", "/other/b.jpg")?.originalPath,
+      "/other/b.jpg",
+    );
+  });
+
+  it("不缓存备用模型生成的结果", () => {
+    const cache = new ResultCache(cachePath);
+
+    cache.set("a", createResult({ fallback: true, model: "llava" }));
+    cache.flush();
+
+    assert.equal(cache.get("a", "/photos/IMG_0001.jpg"), undefined);
+    assert.equal(existsSync(cachePath), false);
+  });
+
+  it("清空缓存后不再写入已清除的条目", () => {
+    const cache = new ResultCache(cachePath);
+
+    cache.set("a", createResult());
+    assert.equal(cache.clear(), 1);
+    cache.flush();
+
+    assert.equal(existsSync(cachePath), false);
+  });
+});
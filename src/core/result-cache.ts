@@ -0,0 +1,223 @@
+/**
+ * 结果缓存
+ * 按文件内容哈希 + 提示词 + 提供商/模型 + 帧提取策略缓存分析结果，重复运行时跳过已分析的文件
+ * 写入先保存在内存中，每个批次完成后或退出时通过临时文件 + 重命名一次性写入
+ */
+
+import { createHash } from "node:crypto";
+import {
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { getConfigManager } from "@/core/config";
+import type {
+  AnalysisResult,
+  ResultCacheEntry,
+  ResultCacheStats,
+} from "@/types";
+import { FileContext } from "@/utils/file-context";
+import { FileUtils } from "@/utils/file-utils";
+import { progressLogger } from "@/utils/progress-logger";
+import { getSignalHandler } from "@/utils/signal-handler";
+
+export class ResultCache {
+  /** 缓存文件路径 */
+  private cachePath: string;
+  /** 已加载的缓存条目 */
+  private entries: Record<string, ResultCacheEntry> | null = null;
+  /** 是否有尚未写入文件的条目 */
+  private dirty = false;
+
+  /**
+   * @param cachePath - 缓存文件路径，默认放在配置文件同目录下
+   */
+  constructor(cachePath?: string) {
+    this.cachePath =
+      cachePath ||
+      join(dirname(getConfigManager().getConfigPath()), "result-cache.json");
+  }
+
+  /**
+   * 是否启用缓存（--no-cache 时禁用）
+   * @returns 是否启用
+   */
+  public isEnabled(): boolean {
+    return getConfigManager().isCacheEnabled();
+  }
+
+  /**
+   * 生成缓存键
+   * 开启文件信息注入时文件信息也会影响结果，一并计入；视频还计入帧采样配置
+   * @param filePath - 文件路径
+   * @param prompt - 完整提示词
+   * @returns 缓存键
+   */
+  public async createKey(filePath: string, prompt: string): Promise<string> {
+    const config = getConfigManager();
+    const contentHash = await FileUtils.hashFile(filePath);
+    const contextConfig = config.getPromptContextConfig();
+    const fileContext = contextConfig.enabled
+      ? await FileContext.describe(filePath, contextConfig.fields)
+      : undefined;
+
+    return createHash("sha256")
+      .update(
+        JSON.stringify([
+          contentHash,
+          prompt,
+          config.getProvider(),
+          config.getModel(),
+          config.getFrameExtractionStrategy(),
+          ...(FileUtils.isVideoFile(filePath)
+            ? [config.getFrameSamplingConfig()]
+            : []),
+          // 未开启时不计入，保持已有缓存键不变
+          ...(fileContext ? [fileContext] : []),
+          // 视频时长在分析时才读取，按是否发送计入
+          ...(contextConfig.enabled &&
+          contextConfig.fields.includes("duration") &&
+          FileUtils.isVideoFile(filePath)
+            ? ["duration"]
+            : []),
+        ]),
+      )
+      .digest("hex");
+  }
+
+  /**
+   * 读取缓存的分析结果
+   * @param key - 缓存键
+   * @param originalPath - 结果对应的文件路径
+   * @returns 分析结果，未命中时返回 undefined
+   */
+  public get(key: string, originalPath: string): AnalysisResult | undefined {
+    const entry = this.load()[key];
+    if (!entry) {
+      return undefined;
+    }
+
+    return {
+      ...entry.result,
+      originalPath,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * 写入分析结果（保存在内存中，调用 flush 后写入文件）
+   * 缓存键按主模型生成，备用模型的结果不缓存，避免下次运行被当作主模型的结果
+   * @param key - 缓存键
+   * @param result - 分析结果
+   */
+  public set(key: string, result: AnalysisResult): void {
+    if (result.fallback) {
+      return;
+    }
+
+    const {
+      originalPath: _originalPath,
+      timestamp: _timestamp,
+      ...rest
+    } = result;
+
+    this.load()[key] = { result: rest, createdAt: Date.now() };
+    this.dirty = true;
+  }
+
+  /**
+   * 把内存中的条目写入缓存文件
+   * 先写入临时文件再重命名，中断时不会留下写了一半的缓存文件
+   */
+  public flush(): void {
+    if (!this.dirty || !this.entries) {
+      return;
+    }
+
+    const tempPath = `${this.cachePath}.${process.pid}.tmp`;
+    try {
+      writeFileSync(tempPath, JSON.stringify(this.entries));
+      renameSync(tempPath, this.cachePath);
+      this.dirty = false;
+    } catch (error) {
+      progressLogger.warn(`保存结果缓存失败: ${error}`);
+    }
+  }
+
+  /**
+   * 获取缓存统计信息
+   * @returns 统计信息
+   */
+  public getStats(): ResultCacheStats {
+    const entries = Object.values(this.load());
+    const createdAt = entries.map((entry) => entry.createdAt);
+
+    return {
+      path: this.cachePath,
+      entries: entries.length,
+      size: FileUtils.fileExists(this.cachePath)
+        ? statSync(this.cachePath).size
+        : 0,
+      oldest: createdAt.length > 0 ? Math.min(...createdAt) : undefined,
+      newest: createdAt.length > 0 ? Math.max(...createdAt) : undefined,
+    };
+  }
+
+  /**
+   * 清空缓存
+   * @returns 清除的条目数量
+   */
+  public clear(): number {
+    const count = Object.keys(this.load()).length;
+    this.entries = {};
+    this.dirty = false;
+
+    if (FileUtils.fileExists(this.cachePath)) {
+      unlinkSync(this.cachePath);
+    }
+
+    return count;
+  }
+
+  /**
+   * 加载缓存文件
+   * @returns 缓存条目
+   */
+  private load(): Record<string, ResultCacheEntry> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    let entries: Record<string, ResultCacheEntry> = {};
+    if (FileUtils.fileExists(this.cachePath)) {
+      try {
+        entries = JSON.parse(readFileSync(this.cachePath, "utf-8"));
+      } catch (error) {
+        progressLogger.warn(`结果缓存已损坏，将重新创建: ${error}`);
+      }
+    }
+
+    this.entries = entries;
+    return entries;
+  }
+}
+
+/** 全局结果缓存实例 */
+let resultCache: ResultCache | null = null;
+
+/**
+ * 获取结果缓存实例
+ * @returns 结果缓存实例
+ */
+export function getResultCache(): ResultCache {
+  if (!resultCache) {
+    const cache = new ResultCache();
+    // 中断运行时保留已完成文件的结果
+    getSignalHandler().addCleanupFunction(() => cache.flush());
+    resultCache = cache;
+  }
+  return resultCache;
+}
@@ -0,0 +1,210 @@
+/**
+ * 运行预估
+ * 执行文件发现、视频探测和批次规划但不调用 AI，预估请求数、数据量、token 用量和耗时
+ * 与实际运行使用相同的帧数计算和批次规划；不考虑结果缓存，按全部文件重新分析估算
+ */
+
+import { AIAnalyzer } from "@/core/ai-analyzer";
+import { BatchPlanner } from "@/core/batch-planner";
+import { getConfigManager } from "@/core/config";
+import { CostTracker } from "@/core/cost-tracker";
+import { ImageProcessor } from "@/core/image-processor";
+import { VideoProcessor } from "@/core/video-processor";
+import type { ItemCost, RunEstimate } from "@/types";
+import { FileUtils } from "@/utils/file-utils";
+import { progressLogger } from "@/utils/progress-logger";
+
+export class RunEstimator {
+  /** 每次请求的固定耗时（秒，粗略估计） */
+  private static readonly SECONDS_PER_REQUEST = 5;
+  /** 模型处理每帧的耗时（秒，粗略估计） */
+  private static readonly SECONDS_PER_FRAME = 0.5;
+  /** 从视频中提取每帧的耗时（秒，粗略估计） */
+  private static readonly SECONDS_PER_EXTRACTED_FRAME = 1;
+  /** 图像处理器实例 */
+  private imageProcessor: ImageProcessor;
+  /** 视频处理器实例 */
+  private videoProcessor: VideoProcessor;
+  /** 批次规划器 */
+  private batchPlanner: BatchPlanner;
+
+  constructor() {
+    this.imageProcessor = new ImageProcessor();
+    this.videoProcessor = new VideoProcessor();
+    this.batchPlanner = new BatchPlanner(this.imageProcessor);
+  }
+
+  /**
+   * 预估处理一组文件的开销
+   * @param filePaths - 文件路径列表
+   * @returns 预估结果
+   */
+  public async estimate(filePaths: string[]): Promise<RunEstimate> {
+    const config = getConfigManager();
+    const { batchSize } = config.getBatchProcessingConfig();
+    const items: ItemCost[] = [];
+    let imageFiles = 0;
+    let videoFiles = 0;
+    let unprobedFiles = 0;
+    let videoFrames = 0;
+    let ffprobeAvailable: boolean | undefined;
+
+    for (const [index, filePath] of filePaths.entries()) {
+      progressLogger.updateProgress(
+        `分析文件 (${index + 1}/${filePaths.length}): ${filePath}`,
+      );
+
+      const fileInfo = FileUtils.getFileInfo(filePath);
+      if (!fileInfo) {
+        progressLogger.warn(`跳过无效文件: ${filePath}`);
+        continue;
+      }
+
+      if (fileInfo.type === "image") {
+        imageFiles++;
+        items.push(
+          await this.batchPlanner.estimateFramesCost(filePath, [filePath]),
+        );
+        continue;
+      }
+
+      videoFiles++;
+      ffprobeAvailable ??= VideoProcessor.checkDependencies().ffprobe.available;
+      if (!ffprobeAvailable) {
+        unprobedFiles++;
+        continue;
+      }
+
+      // 视频帧尚未提取，按视频分辨率估算每帧开销
+      try {
+        const videoInfo = await this.videoProcessor.getVideoInfo(filePath);
+        const frames = this.videoProcessor.estimateFrameCount(videoInfo);
+        videoFrames += frames;
+        items.push({
+          label: filePath,
+          frames,
+          ...this.estimateVideoFramesCost(
+            frames,
+            videoInfo.width,
+            videoInfo.height,
+          ),
+        });
+      } catch (error) {
+        unprobedFiles++;
+        progressLogger.warn(`无法探测视频 ${filePath}: ${error}`);
+      }
+    }
+
+    if (ffprobeAvailable === false) {
+      progressLogger.warn(
+        `FFprobe 不可用，${unprobedFiles} 个视频未计入预估，请先安装 FFmpeg`,
+      );
+    }
+
+    // 与实际运行相同：帧数不多的文件按开销分批，帧数过多的视频分段分析后汇总命名
+    const groupedItems = items.filter(
+      (item) => item.frames <= AIAnalyzer.MAX_GROUPED_FRAMES,
+    );
+    const longVideos = items.filter(
+      (item) => item.frames > AIAnalyzer.MAX_GROUPED_FRAMES,
+    );
+    const plannedBatches = await this.batchPlanner.planBatches(
+      groupedItems,
+      async (item) => item,
+    );
+
+    let requests = plannedBatches.length;
+    let promptTokens = 0;
+    let resultCount = 0;
+    let payloadBytes = 0;
+    let analysisSeconds = 0;
+
+    for (const batch of plannedBatches) {
+      promptTokens += batch.tokens;
+      resultCount += batch.items.length;
+      payloadBytes += batch.bytes;
+      analysisSeconds +=
+        RunEstimator.SECONDS_PER_REQUEST +
+        batch.frames * RunEstimator.SECONDS_PER_FRAME;
+    }
+
+    // 长视频每次请求包含若干片段，最后再发送一次汇总请求
+    const segmentsPerRequest = Math.max(
+      1,
+      Math.floor(batchSize / AIAnalyzer.MAX_GROUPED_FRAMES),
+    );
+    for (const video of longVideos) {
+      const segments = Math.ceil(video.frames / AIAnalyzer.MAX_GROUPED_FRAMES);
+      const videoRequests = Math.ceil(segments / segmentsPerRequest) + 1;
+
+      requests += videoRequests;
+      promptTokens += video.tokens + videoRequests * BatchPlanner.PROMPT_TOKENS;
+      resultCount += segments + 1;
+      payloadBytes += video.bytes;
+      analysisSeconds +=
+        videoRequests * RunEstimator.SECONDS_PER_REQUEST +
+        video.frames * RunEstimator.SECONDS_PER_FRAME;
+    }
+
+    const tokenUsage = CostTracker.estimateUsage(promptTokens, resultCount);
+    const pricing = config.getModelPricing();
+
+    return {
+      totalFiles: filePaths.length,
+      imageFiles,
+      videoFiles,
+      unprobedFiles,
+      totalFrames: items.reduce((sum, item) => sum + item.frames, 0),
+      batches: plannedBatches.length + longVideos.length,
+      requests,
+      payloadBytes,
+      tokenUsage,
+      estimatedCost: pricing
+        ? CostTracker.calculateCost(tokenUsage, pricing)
+        : undefined,
+      extractionSeconds: videoFrames * RunEstimator.SECONDS_PER_EXTRACTED_FRAME,
+      analysisSeconds: analysisSeconds / config.getBatchConcurrency(),
+    };
+  }
+
+  /**
+   * 估算视频各帧的开销
+   * 开启拼接图时，每段（长视频按 MAX_GROUPED_FRAMES 分段）的各帧按一张网格图计算
+   * @param frames - 帧数
+   * @param width - 视频宽度
+   * @param height - 视频高度
+   * @returns 估算的 token 数和字节数
+   */
+  private estimateVideoFramesCost(
+    frames: number,
+    width: number,
+    height: number,
+  ): { tokens: number; bytes: number } {
+    if (!getConfigManager().isContactSheetEnabled() || frames <= 1) {
+      const frameCost = this.batchPlanner.estimateSizeCost(width, height);
+      return {
+        tokens: frames * frameCost.tokens,
+        bytes: frames * frameCost.bytes,
+      };
+    }
+
+    const segments = Math.ceil(frames / AIAnalyzer.MAX_GROUPED_FRAMES);
+    const sheetCost = this.batchPlanner.estimateContactSheetSizeCost(
+      Math.min(frames, AIAnalyzer.MAX_GROUPED_FRAMES),
+      width,
+      height,
+    );
+    return {
+      tokens: segments * sheetCost.tokens,
+      bytes: segments * sheetCost.bytes,
+    };
+  }
+
+  /**
+   * 销毁预估器
+   */
+  public destroy(): void {
+    this.videoProcessor.destroy();
+    this.imageProcessor.destroy();
+  }
+}
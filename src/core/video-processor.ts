@@ -4,25 +4,35 @@
  */
 
 import { execSync, spawn } from "node:child_process";
-import { unlinkSync } from "node:fs";
+import { mkdtempSync, readdirSync, rmSync, unlinkSync } from "node:fs";
 import { join } from "node:path";
 import { getConfigManager } from "@/core/config";
 import type {
   CleanupFunction,
   DependencyCheckResult,
   FrameExtractionStrategy,
+  FrameQualityScore,
   VideoFrameInfo,
 } from "@/types";
 import { FileUtils } from "@/utils/file-utils";
+import { FrameQuality } from "@/utils/frame-quality";
 import { getSignalHandler } from "@/utils/signal-handler";
 
 export class VideoProcessor {
-  /** 默认提取帧数 */
-  private static readonly DEFAULT_FRAME_COUNT = 5;
-  /** 默认帧位置（单帧模式） */
+  /** 默认帧位置（单帧模式，未设置起始偏移时使用） */
   private static readonly DEFAULT_FRAME_POSITION = 10;
+  /** 场景切换阈值，FFmpeg 场景分数高于此值的帧视为镜头切换 */
+  private static readonly SCENE_CHANGE_THRESHOLD = 0.3;
+  /** 画质不合格时重新取帧的最大尝试次数 */
+  private static readonly MAX_RESAMPLE_ATTEMPTS = 4;
+  /** 重新取帧时每次偏移的时长（秒） */
+  private static readonly RESAMPLE_STEP = 1;
+  /** 预估时假定的关键帧间隔（秒），常见编码器的默认 GOP 约为 2 秒 */
+  private static readonly ESTIMATED_KEYFRAME_INTERVAL = 2;
   /** 临时文件清理列表 */
   private tempFiles: string[] = [];
+  /** 临时目录清理列表 */
+  private tempDirectories: string[] = [];
   /** 清理函数 */
   private cleanupFunction: CleanupFunction;
 
@@ -82,7 +92,7 @@ export class VideoProcessor {
    * @param videoPath - 视频文件路径
    * @returns 视频信息
    */
-  private async getVideoInfo(videoPath: string): Promise<{
+  public async getVideoInfo(videoPath: string): Promise<{
     duration: number;
     width: number;
     height: number;
@@ -208,27 +218,40 @@ export class VideoProcessor {
     // 创建临时目录
     const tempDir = FileUtils.getTempDir();
     const framePaths: string[] = [];
+    const frameTimestamps: number[] = [];
 
     try {
       // 根据策略提取帧
       switch (extractionStrategy) {
         case "single":
-          framePaths.push(
-            ...(await this.extractSingleFrame(videoPath, tempDir, videoInfo)),
-          );
-          break;
         case "multiple":
-          framePaths.push(
-            ...(await this.extractMultipleFrames(
-              videoPath,
-              tempDir,
-              videoInfo,
-            )),
+        case "scene": {
+          const frameTimes =
+            extractionStrategy === "single"
+              ? [this.getSingleFrameTime(videoInfo)]
+              : extractionStrategy === "multiple"
+                ? this.getMultipleFrameTimes(videoInfo)
+                : await this.getSceneFrameTimes(videoPath, videoInfo);
+          const frames = await this.extractFramesAt(
+            videoPath,
+            tempDir,
+            frameTimes,
+            videoInfo.duration,
           );
+          framePaths.push(...frames.map((frame) => frame.path));
+          frameTimestamps.push(...frames.map((frame) => frame.timestamp));
           break;
-        case "keyframes":
-          framePaths.push(...(await this.extractKeyFrames(videoPath, tempDir)));
+        }
+        case "keyframes": {
+          const frames = await this.extractKeyFrames(
+            videoPath,
+            tempDir,
+            videoInfo.duration,
+          );
+          framePaths.push(...frames.map((frame) => frame.path));
+          frameTimestamps.push(...frames.map((frame) => frame.timestamp));
           break;
+        }
         default:
           throw new Error(`不支持的提取策略: ${extractionStrategy}`);
       }
@@ -239,6 +262,7 @@ export class VideoProcessor {
       return {
         videoPath,
         framePaths,
+        frameTimestamps,
         duration: videoInfo.duration,
         width: videoInfo.width,
         height: videoInfo.height,
@@ -253,120 +277,410 @@ export class VideoProcessor {
   }
 
   /**
-   * 提取单帧（第10帧）
+   * 预估按策略提取的帧数（不实际提取）
+   * 关键帧数量取决于编码参数，按固定间隔粗略估算
+   * @param videoInfo - 视频信息
+   * @param strategy - 提取策略，默认使用配置中的策略
+   * @returns 帧数
+   */
+  public estimateFrameCount(
+    videoInfo: { duration: number },
+    strategy: FrameExtractionStrategy = getConfigManager().getFrameExtractionStrategy(),
+  ): number {
+    switch (strategy) {
+      case "single":
+        return 1;
+      case "multiple":
+        return this.getMultipleFrameTimes(videoInfo).length;
+      case "scene":
+        // 镜头数只有解码后才能得知，按上限估算
+        return this.getFrameCount(videoInfo.duration);
+      case "keyframes": {
+        const startTime = this.getStartOffset(videoInfo.duration) ?? 0;
+        return Math.max(
+          1,
+          Math.min(
+            getConfigManager().getFrameSamplingConfig().maxKeyframes,
+            Math.ceil(
+              (videoInfo.duration - startTime) /
+                VideoProcessor.ESTIMATED_KEYFRAME_INTERVAL,
+            ),
+          ),
+        );
+      }
+      default:
+        throw new Error(`不支持的提取策略: ${strategy}`);
+    }
+  }
+
+  /**
+   * 按时长规则计算多帧和场景策略的取帧数
+   * @param duration - 视频时长（秒）
+   * @returns 取帧数
+   */
+  private getFrameCount(duration: number): number {
+    const { frameCount, durationRules } =
+      getConfigManager().getFrameSamplingConfig();
+    const rule = durationRules.find(
+      (rule) => rule.maxDuration === undefined || duration <= rule.maxDuration,
+    );
+
+    return rule?.frames ?? frameCount;
+  }
+
+  /**
+   * 计算取帧起始偏移
+   * @param duration - 视频时长（秒）
+   * @returns 起始时间点（秒），未设置偏移时返回 undefined
+   */
+  private getStartOffset(duration: number): number | undefined {
+    const { startOffset } = getConfigManager().getFrameSamplingConfig();
+    if (startOffset === undefined) {
+      return undefined;
+    }
+
+    const seconds =
+      typeof startOffset === "number"
+        ? startOffset
+        : (duration * parseFloat(startOffset)) / 100;
+
+    // 偏移超出视频时长时从头开始
+    return seconds < duration ? seconds : 0;
+  }
+
+  /**
+   * 计算单帧策略的取帧时间点（起始偏移处，未设置时取第10帧）
+   * @param videoInfo - 视频信息
+   * @returns 时间点（秒）
+   */
+  private getSingleFrameTime(videoInfo: {
+    duration: number;
+    fps: number;
+  }): number {
+    const startTime =
+      this.getStartOffset(videoInfo.duration) ??
+      VideoProcessor.DEFAULT_FRAME_POSITION / videoInfo.fps;
+
+    return Math.max(0, Math.min(startTime, videoInfo.duration - 1));
+  }
+
+  /**
+   * 计算多帧策略的取帧时间点（起始偏移之后均匀分布）
+   * @param videoInfo - 视频信息
+   * @returns 时间点列表（秒）
+   */
+  private getMultipleFrameTimes(videoInfo: { duration: number }): number[] {
+    /** 取帧数 */
+    const frameCount = this.getFrameCount(videoInfo.duration);
+    /** 起始时间点 */
+    const startTime = this.getStartOffset(videoInfo.duration) ?? 0;
+    /** 帧间隔 */
+    const interval = (videoInfo.duration - startTime) / (frameCount + 1);
+
+    return Array.from(
+      { length: frameCount },
+      (_, i) => startTime + interval * (i + 1),
+    );
+  }
+
+  /**
+   * 计算场景策略的取帧时间点
+   * 按 FFmpeg 场景分数选出差异最大的若干个镜头切换点，把视频划分为镜头，取每个镜头的中点，
+   * 避开切换处的过渡画面；没有检测到镜头切换的静态画面或场景检测失败时回退为均匀取帧
    * @param videoPath - 视频路径
-   * @param tempDir - 临时目录
    * @param videoInfo - 视频信息
-   * @returns 帧文件路径列表
+   * @returns 时间点列表（秒）
    */
-  private async extractSingleFrame(
+  private async getSceneFrameTimes(
     videoPath: string,
-    tempDir: string,
-    videoInfo: { duration: number; fps: number },
-  ): Promise<string[]> {
-    const frameTime = Math.min(
-      VideoProcessor.DEFAULT_FRAME_POSITION / videoInfo.fps,
-      videoInfo.duration - 1,
-    );
+    videoInfo: { duration: number },
+  ): Promise<number[]> {
+    const frameCount = this.getFrameCount(videoInfo.duration);
+    if (frameCount === 1) {
+      // 只取一帧时无需检测镜头
+      return this.getMultipleFrameTimes(videoInfo);
+    }
 
-    const outputPath = join(tempDir, `frame_${Date.now()}.jpg`);
+    const startTime = this.getStartOffset(videoInfo.duration) ?? 0;
+    let sceneChanges: Array<{ time: number; score: number }>;
+    try {
+      sceneChanges = await this.detectSceneChanges(videoPath);
+    } catch (error) {
+      // 场景检测失败不影响取帧，改为均匀取帧
+      if (getConfigManager().isVerboseMode()) {
+        console.warn(`场景检测失败，改为均匀取帧 ${videoPath}:`, error);
+      }
+      return this.getMultipleFrameTimes(videoInfo);
+    }
 
-    await this.runFFmpeg([
+    // 起始处的镜头没有切换点，其余镜头各对应一个切换点
+    const cutTimes = sceneChanges
+      .filter(
+        (change) => change.time > startTime && change.time < videoInfo.duration,
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, frameCount - 1)
+      .map((change) => change.time)
+      .sort((a, b) => a - b);
+
+    if (cutTimes.length === 0) {
+      if (getConfigManager().isVerboseMode()) {
+        console.log("未检测到镜头切换，改为均匀取帧:", videoPath);
+      }
+      return this.getMultipleFrameTimes(videoInfo);
+    }
+
+    const boundaries = [startTime, ...cutTimes, videoInfo.duration];
+    return cutTimes
+      .concat(videoInfo.duration)
+      .map((end, i) => (boundaries[i] + end) / 2);
+  }
+
+  /**
+   * 使用 FFmpeg 场景检测找出镜头切换点
+   * @param videoPath - 视频路径
+   * @returns 切换点的时间（秒）和场景分数
+   */
+  private async detectSceneChanges(
+    videoPath: string,
+  ): Promise<Array<{ time: number; score: number }>> {
+    // metadata=print 把每个选中帧的时间点和场景分数输出到日志
+    const output = await this.runFFmpeg([
       "-i",
       videoPath,
-      "-ss",
-      frameTime.toString(),
-      "-vframes",
-      "1",
-      "-y",
-      outputPath,
+      "-an",
+      "-vf",
+      `select=gt(scene\\,${VideoProcessor.SCENE_CHANGE_THRESHOLD}),metadata=print`,
+      "-f",
+      "null",
+      "-",
     ]);
 
-    return [outputPath];
+    const changes: Array<{ time: number; score: number }> = [];
+    let time: number | undefined;
+
+    for (const line of output.split("\n")) {
+      const timeMatch = line.match(/pts_time:\s*([\d.]+)/);
+      if (timeMatch) {
+        time = parseFloat(timeMatch[1]);
+        continue;
+      }
+
+      const scoreMatch = line.match(/lavfi\.scene_score=([\d.]+)/);
+      if (scoreMatch && time !== undefined) {
+        changes.push({ time, score: parseFloat(scoreMatch[1]) });
+        time = undefined;
+      }
+    }
+
+    return changes;
   }
 
   /**
-   * 提取多帧（均匀分布）
+   * 提取指定时间点的帧
+   * 开启画质检查时，黑场、白场、纯色或模糊的帧会被替换为附近时间点的合格帧
    * @param videoPath - 视频路径
    * @param tempDir - 临时目录
-   * @param videoInfo - 视频信息
-   * @returns 帧文件路径列表
+   * @param frameTimes - 时间点列表（秒）
+   * @param duration - 视频时长（秒）
+   * @returns 帧文件路径和实际时间点
    */
-  private async extractMultipleFrames(
+  private async extractFramesAt(
     videoPath: string,
     tempDir: string,
-    videoInfo: { duration: number },
-  ): Promise<string[]> {
-    /** 取帧数 */
-    const frameCount = VideoProcessor.DEFAULT_FRAME_COUNT;
-    /** 帧间隔 */
-    const interval = videoInfo.duration / (frameCount + 1);
-    /** 帧文件路径列表 */
-    const framePaths: string[] = [];
+    frameTimes: number[],
+    duration: number,
+  ): Promise<Array<{ path: string; timestamp: number }>> {
+    const { qualityCheck } = getConfigManager().getFrameSamplingConfig();
+    const frames: Array<{ path: string; timestamp: number }> = [];
+
+    try {
+      for (const [index, frameTime] of frameTimes.entries()) {
+        const outputPath = join(
+          tempDir,
+          `frame_${Date.now()}_${index + 1}.jpg`,
+        );
+        await this.extractFrame(videoPath, frameTime, outputPath);
+
+        const frame = { path: outputPath, timestamp: frameTime };
+        frames.push(
+          qualityCheck
+            ? await this.resampleLowQualityFrame(videoPath, frame, duration)
+            : frame,
+        );
+      }
+    } catch (error) {
+      this.cleanupTempFiles(frames.map((frame) => frame.path));
+      throw error;
+    }
 
-    for (let i = 1; i <= frameCount; i++) {
-      const frameTime = interval * i;
-      const outputPath = join(tempDir, `frame_${Date.now()}_${i}.jpg`);
+    return frames;
+  }
 
-      await this.runFFmpeg([
-        "-i",
-        videoPath,
-        "-ss",
-        frameTime.toString(),
-        "-vframes",
-        "1",
-        "-y",
-        outputPath,
-      ]);
-
-      framePaths.push(outputPath);
+  /**
+   * 检查帧画质，不合格时在附近时间点重新取帧
+   * 依次尝试向后、向前逐步偏移的时间点，最多尝试 MAX_RESAMPLE_ATTEMPTS 次；
+   * 都不合格时保留原来的帧
+   * @param videoPath - 视频路径
+   * @param frame - 原来的帧
+   * @param duration - 视频时长（秒）
+   * @returns 合格的帧，或原来的帧
+   */
+  private async resampleLowQualityFrame(
+    videoPath: string,
+    frame: { path: string; timestamp: number },
+    duration: number,
+  ): Promise<{ path: string; timestamp: number }> {
+    const issue = await this.getFrameIssue(frame.path);
+    if (!issue) {
+      return frame;
+    }
+
+    const verbose = getConfigManager().isVerboseMode();
+    if (verbose) {
+      console.log(
+        `${frame.timestamp.toFixed(1)} 秒处的帧${FrameQuality.describeIssue(issue)}，尝试附近的帧`,
+      );
+    }
+
+    // 短视频按比例缩小偏移步长，避免超出视频范围
+    const step = Math.min(VideoProcessor.RESAMPLE_STEP, duration / 10);
+    const candidateTimes = Array.from(
+      { length: VideoProcessor.MAX_RESAMPLE_ATTEMPTS },
+      (_, i) => Math.floor(i / 2 + 1) * step * (i % 2 === 0 ? 1 : -1),
+    )
+      .map((offset) => frame.timestamp + offset)
+      .filter((time) => time >= 0 && time < duration);
+
+    for (const [index, time] of candidateTimes.entries()) {
+      const candidatePath = frame.path.replace(
+        /\.jpg$/,
+        `_retry${index + 1}.jpg`,
+      );
+
+      try {
+        await this.extractFrame(videoPath, time, candidatePath);
+        if (!(await this.getFrameIssue(candidatePath))) {
+          this.cleanupTempFiles([frame.path]);
+          if (verbose) {
+            console.log(`改用 ${time.toFixed(1)} 秒处的帧`);
+          }
+          return { path: candidatePath, timestamp: time };
+        }
+      } catch {
+        // 单个候选帧失败时继续尝试下一个
+      }
+      this.cleanupTempFiles([candidatePath]);
+    }
+
+    if (verbose) {
+      console.log(
+        `附近没有合格的帧，保留 ${frame.timestamp.toFixed(1)} 秒处的帧`,
+      );
+    }
+    return frame;
+  }
+
+  /**
+   * 评估帧画质
+   * @param framePath - 帧图像路径
+   * @returns 画质问题，合格或无法评估时返回 undefined
+   */
+  private async getFrameIssue(
+    framePath: string,
+  ): Promise<FrameQualityScore["issue"]> {
+    try {
+      const quality = await FrameQuality.assess(framePath);
+      return quality.issue;
+    } catch {
+      // 无法评估时不阻止处理
+      return undefined;
     }
+  }
 
-    return framePaths;
+  /**
+   * 提取单个时间点的帧
+   * @param videoPath - 视频路径
+   * @param frameTime - 时间点（秒）
+   * @param outputPath - 输出路径
+   */
+  private async extractFrame(
+    videoPath: string,
+    frameTime: number,
+    outputPath: string,
+  ): Promise<void> {
+    await this.runFFmpeg([
+      "-i",
+      videoPath,
+      "-ss",
+      frameTime.toString(),
+      "-vframes",
+      "1",
+      "-y",
+      outputPath,
+    ]);
   }
 
   /**
    * 提取关键帧
+   * 解码时跳过非关键帧，并要求选中的关键帧之间至少间隔（时长 / 上限），
+   * 使取帧沿时间轴均匀分布；输出帧数由 -frames:v 限制为 maxKeyframes，
+   * 时长未知时退化为取最前面的关键帧；
+   * 输出写入每个视频独立的临时目录，时间点从 showinfo 日志中读取
    * @param videoPath - 视频路径
    * @param tempDir - 临时目录
-   * @returns 帧文件路径列表
+   * @param duration - 视频时长（秒）
+   * @returns 帧文件路径和时间点
    */
   private async extractKeyFrames(
     videoPath: string,
     tempDir: string,
-  ): Promise<string[]> {
-    const outputPattern = join(tempDir, `keyframe_${Date.now()}_%03d.jpg`);
-
-    await this.runFFmpeg([
+    duration: number,
+  ): Promise<Array<{ path: string; timestamp: number }>> {
+    const { maxKeyframes } = getConfigManager().getFrameSamplingConfig();
+    const startTime = this.getStartOffset(duration) ?? 0;
+    const interval = (duration - startTime) / maxKeyframes;
+
+    const outputDir = mkdtempSync(join(tempDir, "keyframes_"));
+    this.tempDirectories.push(outputDir);
+
+    const output = await this.runFFmpeg([
+      "-skip_frame",
+      "nokey",
       "-i",
       videoPath,
+      "-an",
       "-vf",
-      "select=eq(pict_type\\,I)",
+      `select=eq(pict_type\\,I)*gte(t\\,${startTime})*(isnan(prev_selected_t)+gte(t-prev_selected_t\\,${interval})),showinfo`,
       "-vsync",
       "vfr",
+      // 时长未知或为 0 时间隔失效，由帧数上限保证不会写出过多文件
+      "-frames:v",
+      String(maxKeyframes),
       "-y",
-      outputPattern,
+      join(outputDir, "keyframe_%03d.jpg"),
     ]);
 
-    // 获取生成的关键帧文件
-    const framePaths: string[] = [];
-    const files = require("node:fs").readdirSync(tempDir);
-
-    for (const file of files) {
-      if (file.startsWith(`keyframe_${Date.now().toString().slice(0, -3)}`)) {
-        framePaths.push(join(tempDir, file));
-      }
-    }
-
-    return framePaths;
+    const timestamps = [...output.matchAll(/pts_time:\s*([\d.]+)/g)].map(
+      (match) => parseFloat(match[1]),
+    );
+    const framePaths = readdirSync(outputDir)
+      .filter((file) => file.endsWith(".jpg"))
+      .sort()
+      .map((file) => join(outputDir, file));
+
+    return framePaths.map((path, index) => ({
+      path,
+      timestamp: timestamps[index] ?? 0,
+    }));
   }
 
   /**
    * 执行 FFmpeg 命令
    * @param args - 命令参数
-   * @returns Promise
+   * @returns FFmpeg 的日志输出
    */
-  private async runFFmpeg(args: string[]): Promise<void> {
+  private async runFFmpeg(args: string[]): Promise<string> {
     return new Promise((resolve, reject) => {
       const config = getConfigManager();
 
@@ -375,18 +689,18 @@ export class VideoProcessor {
       }
 
       const ffmpeg = spawn("ffmpeg", args);
-      let error = "";
+      let output = "";
 
       ffmpeg.stderr.on("data", (data) => {
-        error += data.toString();
+        output += data.toString();
       });
 
       ffmpeg.on("close", (code) => {
         if (code !== 0) {
-          reject(new Error(`FFmpeg 执行失败 (退出码: ${code}): ${error}`));
+          reject(new Error(`FFmpeg 执行失败 (退出码: ${code}): ${output}`));
           return;
         }
-        resolve();
+        resolve(output);
       });
 
       ffmpeg.on("error", (err) => {
@@ -419,6 +733,17 @@ export class VideoProcessor {
   public cleanup(): void {
     this.cleanupTempFiles(this.tempFiles);
     this.tempFiles = [];
+
+    for (const directory of this.tempDirectories) {
+      try {
+        rmSync(directory, { recursive: true, force: true });
+      } catch (error) {
+        if (getConfigManager().isVerboseMode()) {
+          console.warn(`清理临时目录失败 ${directory}:`, error);
+        }
+      }
+    }
+    this.tempDirectories = [];
   }
 
   /**
@@ -0,0 +1,109 @@
+/**
+ * 提供商错误
+ * 对模型服务返回的错误进行分类，区分可重试的临时错误和不可重试的永久错误
+ */
+
+/**
+ * 错误类型
+ * - transient: 临时错误（网络异常、超时、5xx、限流/配额），可以重试
+ * - auth: 认证失败（API Key 无效、无权限）
+ * - blocked: 内容被安全策略拦截
+ * - invalid_request: 请求本身有误（参数错误、请求过大等）
+ * - not_recorded: 回放模式下没有找到该请求的录制响应
+ * - unknown: 无法识别的错误
+ */
+export type ProviderErrorKind =
+  | "transient"
+  | "auth"
+  | "blocked"
+  | "invalid_request"
+  | "not_recorded"
+  | "unknown";
+
+export class ProviderError extends Error {
+  /** 错误类型 */
+  public readonly kind: ProviderErrorKind;
+  /** HTTP 状态码 */
+  public readonly status?: number;
+  /** 服务端建议的重试等待时间（毫秒） */
+  public readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    kind: ProviderErrorKind,
+    options: { status?: number; retryAfterMs?: number; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ProviderError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /** 是否可以重试 */
+  public get retryable(): boolean {
+    return this.kind === "transient";
+  }
+
+  /**
+   * 根据 HTTP 状态码推断错误类型
+   * @param status - HTTP 状态码
+   * @returns 错误类型
+   */
+  public static kindFromStatus(status: number): ProviderErrorKind {
+    if (status === 408 || status === 429 || status >= 500) {
+      return "transient";
+    }
+    if (status === 401 || status === 403) {
+      return "auth";
+    }
+    if (status >= 400) {
+      return "invalid_request";
+    }
+    return "unknown";
+  }
+
+  /**
+   * 将任意错误转换为提供商错误
+   * 未分类的网络异常（连接失败、超时）视为临时错误
+   * @param error - 原始错误
+   * @returns 提供商错误
+   */
+  public static from(error: unknown): ProviderError {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const isNetworkError =
+      error instanceof Error &&
+      (error.name === "TimeoutError" ||
+        error.name === "AbortError" ||
+        /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i.test(
+          `${message} ${(error.cause as Error | undefined)?.message ?? ""}`,
+        ));
+
+    const kind = isNetworkError ? "transient" : "unknown";
+
+    return new ProviderError(message, kind, { cause: error });
+  }
+
+  /**
+   * 解析 Retry-After 响应头
+   * @param value - 响应头的值（秒数或 HTTP 日期）
+   * @returns 等待时间（毫秒），无法解析时返回 undefined
+   */
+  public static parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
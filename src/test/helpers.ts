@@ -0,0 +1,141 @@
+/**
+ * 测试辅助工具
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import sharp from "sharp";
+import type {
+  ProviderAnalysisRequest,
+  RawAnalysisItem,
+  VisionProvider,
+  VisionProviderName,
+} from "@/types";
+
+/**
+ * 创建临时目录
+ * @returns 临时目录路径和清理函数
+ */
+export function createTempDir(): { dir: string; cleanup: () => void } {
+  const dir = mkdtempSync(join(tmpdir(), "frame-sense-test-"));
+  return { dir, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * 生成纯色 JPEG 测试图像
+ * @param path - 输出路径
+ * @param color - 颜色
+ * @param size - 宽高
+ * @returns 输出路径
+ */
+export async function createSolidImage(
+  path: string,
+  color: { r: number; g: number; b: number },
+  size = { width: 64, height: 48 },
+): Promise<string> {
+  await sharp({
+    create: { ...size, channels: 3, background: color },
+  })
+    .jpeg()
+    .toFile(path);
+  return path;
+}
+
+/**
+ * 创建按预设响应返回结果的提供商，记录每次请求的对象 ID
+ * @param respond - 根据请求返回结果列表
+ * @param name - 提供商名称
+ * @param model - 模型名称
+ * @returns 提供商和请求记录
+ */
+export function createFakeProvider(
+  respond: (
+    request: ProviderAnalysisRequest,
+    call: number,
+  ) => RawAnalysisItem[] | null,
+  name: VisionProviderName = "gemini",
+  model = "fake-model",
+): { provider: VisionProvider; calls: string[][] } {
+  const calls: string[][] = [];
+  const provider: VisionProvider = {
+    name,
+    model,
+    async analyzeImages(request) {
+      calls.push(request.items.map((item) => item.id));
+      const results = respond(request, calls.length);
+      return { results, rawText: JSON.stringify({ results }) };
+    },
+    async testConnection() {
+      return { success: true, model };
+    },
+    async listModels() {
+      return [model];
+    },
+  };
+  return { provider, calls };
+}
+
+/** 桩服务收到的请求 */
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: unknown;
+}
+
+/** 桩服务返回的响应 */
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * 启动本地 HTTP 桩服务，按请求返回预设的 JSON 响应
+ * @param respond - 根据请求返回响应
+ * @returns 服务地址、收到的请求和关闭函数
+ */
+export async function startStubServer(
+  respond: (request: StubRequest) => StubResponse,
+): Promise<{
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}> {
+  const requests: StubRequest[] = [];
+  const server = createServer((req, res) => {
+    let text = "";
+    req.on("data", (chunk) => {
+      text += chunk;
+    });
+    req.on("end", () => {
+      const request: StubRequest = {
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        headers: req.headers,
+        body: text ? JSON.parse(text) : undefined,
+      };
+      requests.push(request);
+
+      const { status = 200, headers = {}, body } = respond(request);
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
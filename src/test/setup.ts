@@ -0,0 +1,25 @@
+/**
+ * 测试环境初始化
+ * 通过 --import 在每个测试文件之前加载，把配置和缓存目录指向独立的临时目录，
+ * 并忽略 FRAME_SENSE_* 环境变量，避免读写用户的配置
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const home = mkdtempSync(join(tmpdir(), "frame-sense-test-"));
+
+process.env.HOME = home;
+process.env.XDG_CONFIG_HOME = join(home, ".config");
+process.env.XDG_CACHE_HOME = join(home, ".cache");
+
+for (const key of Object.keys(process.env)) {
+  if (key.startsWith("FRAME_SENSE_")) {
+    delete process.env[key];
+  }
+}
+
+process.on("exit", () => {
+  rmSync(home, { recursive: true, force: true });
+});
@@ -3,6 +3,8 @@
  * 定义了应用程序中使用的所有类型接口
  */
 
+import type { ProviderErrorKind } from "@/errors/provider-error";
+
 /** 支持的媒体文件类型 */
 export type MediaFileType = "image" | "video";
 
@@ -30,7 +32,48 @@ export type VideoFormat =
   | "3gp";
 
 /** 帧提取策略 */
-export type FrameExtractionStrategy = "single" | "multiple" | "keyframes";
+export type FrameExtractionStrategy =
+  | "single"
+  | "multiple"
+  | "scene"
+  | "keyframes";
+
+/** 取帧起始偏移：秒数，或以 % 结尾的视频时长百分比 */
+export type FrameStartOffset = number | `${number}%`;
+
+/** 按视频时长调整取帧数的规则 */
+export interface FrameCountRule {
+  /** 适用的最大时长（秒），未设置表示不限时长 */
+  maxDuration?: number;
+  /** 取帧数 */
+  frames: number;
+}
+
+/** 帧采样配置 */
+export interface FrameSamplingConfig {
+  /** 多帧和场景策略的取帧数，没有匹配的时长规则时使用 */
+  frameCount: number;
+  /** 起始偏移，跳过片头黑场；未设置时单帧策略取第 10 帧，多帧策略从视频开头均匀取帧 */
+  startOffset?: FrameStartOffset;
+  /** 时长规则，按时长从短到长排列，使用第一条适用的规则 */
+  durationRules: FrameCountRule[];
+  /** 是否检查帧画质，跳过黑场、白场、纯色和模糊的帧 */
+  qualityCheck: boolean;
+  /** 关键帧策略的最大取帧数，从关键帧中沿时间轴均匀选取 */
+  maxKeyframes: number;
+}
+
+/** 帧画质评分 */
+export interface FrameQualityScore {
+  /** 平均亮度（0-255） */
+  luminance: number;
+  /** 亮度标准差 */
+  contrast: number;
+  /** 锐度（拉普拉斯响应的标准差） */
+  sharpness: number;
+  /** 画质问题，合格时为 undefined */
+  issue?: "dark" | "bright" | "flat" | "blurry";
+}
 
 /** AI 分析结果 */
 export interface AnalysisResult {
@@ -42,10 +85,40 @@ export interface AnalysisResult {
   description: string;
   /** 标签列表 */
   tags: string[];
+  /** 内容类别 */
+  category: string;
   /** 分析时间戳 */
   timestamp: number;
   /** 文件名 */
   filename: string;
+  /** 生成结果的提供商 */
+  provider?: VisionProviderName;
+  /** 生成结果的模型 */
+  model?: string;
+  /** 是否由备用模型生成 */
+  fallback?: boolean;
+}
+
+/** 结果缓存条目 */
+export interface ResultCacheEntry {
+  /** 缓存的分析结果（不含与具体路径相关的字段） */
+  result: Omit<AnalysisResult, "originalPath" | "timestamp">;
+  /** 写入时间戳 */
+  createdAt: number;
+}
+
+/** 结果缓存统计信息 */
+export interface ResultCacheStats {
+  /** 缓存文件路径 */
+  path: string;
+  /** 条目数量 */
+  entries: number;
+  /** 缓存文件大小（字节） */
+  size: number;
+  /** 最早的条目写入时间 */
+  oldest?: number;
+  /** 最新的条目写入时间 */
+  newest?: number;
 }
 
 /** 重命名结果 */
@@ -86,6 +159,8 @@ export interface VideoFrameInfo {
   videoPath: string;
   /** 提取的帧图片路径列表 */
   framePaths: string[];
+  /** 各帧在视频中的时间点（秒），与 framePaths 一一对应，无法确定时为空数组 */
+  frameTimestamps: number[];
   /** 视频总时长（秒） */
   duration: number;
   /** 视频宽度 */
@@ -98,6 +173,47 @@ export interface VideoFrameInfo {
   strategy: FrameExtractionStrategy;
 }
 
+/** 图片元数据（来自 EXIF） */
+export interface ImageMetadata {
+  /** 宽度 */
+  width?: number;
+  /** 高度 */
+  height?: number;
+  /** 相机型号 */
+  camera?: string;
+  /** 镜头型号 */
+  lens?: string;
+  /** 拍摄时间 */
+  creationDate?: Date;
+  /** 拍摄地点 */
+  gps?: GeoCoordinates;
+}
+
+/** 地理坐标（十进制度数） */
+export interface GeoCoordinates {
+  /** 纬度，北纬为正 */
+  latitude: number;
+  /** 经度，东经为正 */
+  longitude: number;
+}
+
+/** 可以随请求发送给模型的文件信息字段 */
+export type PromptContextField =
+  | "filename"
+  | "folder"
+  | "duration"
+  | "date"
+  | "camera"
+  | "gps";
+
+/** 文件信息注入配置 */
+export interface PromptContextConfig {
+  /** 是否在请求中附带各文件的信息 */
+  enabled: boolean;
+  /** 允许发送的字段 */
+  fields: PromptContextField[];
+}
+
 /** 图像处理选项 */
 export interface ImageProcessOptions {
   /** 压缩质量 (1-100) */
@@ -116,14 +232,70 @@ export interface ImageProcessOptions {
 export interface BatchProcessOptions {
   /** 每批处理的最大文件数 */
   batchSize: number;
-  /** 最大 token 数量限制 */
+  /** 单次请求的最大 token 数量限制 */
   maxTokens: number;
+  /** 单次请求的最大字节数（图像 base64 编码后） */
+  maxRequestBytes: number;
   /** 是否启用并行处理 */
   parallel: boolean;
   /** 并行处理的最大线程数 */
   maxConcurrency: number;
 }
 
+/** 请求重试配置 */
+export interface RetryConfig {
+  /** 最大重试次数（0 表示不重试） */
+  maxRetries: number;
+  /** 首次重试的基础等待时间（毫秒），之后按指数增长 */
+  baseDelayMs: number;
+  /** 单次等待时间上限（毫秒），服务端指定 Retry-After 时以服务端为准 */
+  maxDelayMs: number;
+}
+
+/** 单帧的请求开销估算 */
+export interface FrameCost {
+  /** 帧路径 */
+  framePath: string;
+  /** 优化后的宽度 */
+  width: number;
+  /** 优化后的高度 */
+  height: number;
+  /** 估算的输入 token 数 */
+  tokens: number;
+  /** 估算的请求字节数（base64 编码后） */
+  bytes: number;
+}
+
+/** 单个待分批项目（如一个文件的所有帧）的请求开销估算 */
+export interface ItemCost {
+  /** 项目名称，用于日志 */
+  label: string;
+  /** 帧数 */
+  frames: number;
+  /** 估算的输入 token 数（不含提示词） */
+  tokens: number;
+  /** 估算的请求字节数（base64 编码后） */
+  bytes: number;
+}
+
+/** 批次规划结果 */
+export interface PlannedBatch<T> {
+  /** 批次中的项目 */
+  items: T[];
+  /** 批次中的帧数 */
+  frames: number;
+  /** 估算的输入 token 数（含提示词） */
+  tokens: number;
+  /** 估算的请求字节数 */
+  bytes: number;
+}
+
+/** 文件名模板可引用的分析字段 */
+export type TemplateFields = Pick<
+  AnalysisResult,
+  "suggestedName" | "description" | "tags" | "category"
+>;
+
 /** 文件名模板配置 */
 export interface FilenameTemplateConfig {
   /** 模板字符串，支持变量替换和日期格式 */
@@ -134,32 +306,123 @@ export interface FilenameTemplateConfig {
 
 /** Prompt 配置选项 */
 export interface PromptConfig {
-  /** 文件名字数长度限制 */
+  /** 生成内容使用的语言 */
+  language: PromptLanguage;
+  /** 文件名长度限制（中文、日文按字符计，英文按单词计） */
   filenameLength: number;
+  /** 是否将文件名中的中文转换为拼音，只保留 ASCII 字符 */
+  romanize: boolean;
   /** 自定义 prompt 模板（只能自定义分析要求部分，JSON 格式部分由系统自动添加） */
   customTemplate?: string;
   /** 文件名模板配置 */
   filenameTemplate?: FilenameTemplateConfig;
 }
 
+/** 提示词配置档：按场景保存的一组 Prompt 设置，运行时通过 --profile 选用 */
+export interface PromptProfile {
+  /** 自定义 prompt 模板 */
+  customTemplate?: string;
+  /** 文件名长度限制 */
+  filenameLength?: number;
+  /** 生成内容使用的语言 */
+  language?: PromptLanguage;
+  /** 默认文件名模板 */
+  filenameTemplate?: string;
+}
+
+/** 生成内容的语言 */
+export type PromptLanguage = "zh-CN" | "en" | "ja";
+
+/** 文件名大小写风格 */
+export type FilenameCase = "snake" | "kebab" | "camel" | "title" | "as-is";
+
+/** 文件名风格配置 */
+export interface FilenameStyleConfig {
+  /** 大小写风格 */
+  case: FilenameCase;
+  /** 单词分隔符，未设置时使用风格默认的分隔符 */
+  separator?: string;
+}
+
+/** 视觉模型提供商名称 */
+export type VisionProviderName = "gemini" | "openai" | "ollama";
+
+/** 备用模型：主模型请求失败时依次尝试 */
+export interface FallbackModel {
+  /** 提供商 */
+  provider: VisionProviderName;
+  /** 模型名称，为空时使用该提供商配置中的模型 */
+  model?: string;
+}
+
+/** OpenAI 兼容提供商配置 */
+export interface OpenAIProviderOptions {
+  /** 接口基础地址（包含 /v1），如 http://localhost:8000/v1 */
+  baseUrl: string;
+  /** API Key（本地服务可留空） */
+  apiKey: string;
+  /** 模型名称 */
+  model: string;
+}
+
+/** Ollama 提供商配置 */
+export interface OllamaProviderOptions {
+  /** 服务地址，如 http://localhost:11434 */
+  baseUrl: string;
+  /** 模型名称（需支持视觉输入） */
+  model: string;
+}
+
 /** 应用配置 */
 export interface AppConfig {
+  /** 视觉模型提供商 */
+  provider: VisionProviderName;
   /** Google Gemini API Key */
   api: string;
   /** 默认模型名称 */
   defaultModel: string;
+  /** OpenAI 兼容提供商配置 */
+  openai: OpenAIProviderOptions;
+  /** Ollama 提供商配置 */
+  ollama: OllamaProviderOptions;
   /** 图像处理选项 */
   imageProcessing: ImageProcessOptions;
   /** 批量处理选项 */
   batchProcessing: BatchProcessOptions;
+  /** 请求重试配置 */
+  retry: RetryConfig;
+  /** 备用模型，主模型请求失败或未给出结果时按顺序尝试 */
+  fallbackModels: FallbackModel[];
+  /** 各模型价格，用于估算费用 */
+  pricing: Record<string, ModelPricing>;
   /** Prompt 配置选项 */
   promptConfig: PromptConfig;
+  /** 提示词配置档，按名称索引 */
+  promptProfiles: Record<string, PromptProfile>;
+  /** 文件信息注入 */
+  promptContext: PromptContextConfig;
+  /** 文件名风格 */
+  filenameStyle: FilenameStyleConfig;
   /** 帧提取策略 */
   frameExtractionStrategy: FrameExtractionStrategy;
+  /** 帧采样 */
+  frameSampling: FrameSamplingConfig;
+  /** 是否把视频的各帧和多张小图拼接为网格图发送，减少图像数量 */
+  contactSheet: boolean;
   /** 临时文件目录 */
   tempDirectory: string;
   /** 是否启用详细输出和调试模式（临时选项，不持久化） */
   verbose?: boolean;
+  /** 是否禁用结果缓存（临时选项，不持久化） */
+  cacheDisabled?: boolean;
+  /** 本次运行的费用上限（美元，临时选项，不持久化） */
+  maxCost?: number;
+  /** 录制提供商响应的目录（临时选项，不持久化） */
+  recordDir?: string;
+  /** 回放提供商响应的目录（临时选项，不持久化） */
+  replayDir?: string;
+  /** 本次运行使用的提示词配置档（临时选项，不持久化） */
+  promptProfile?: string;
 }
 
 /** 命令行选项 */
@@ -172,6 +435,8 @@ export interface CommandOptions {
   verbose?: boolean;
   /** 是否仅预览不实际重命名 */
   preview?: boolean;
+  /** 是否只预估开销，不调用 AI */
+  estimate?: boolean;
   /** 是否强制覆盖 */
   force?: boolean;
   /** 自定义配置文件路径 */
@@ -194,12 +459,38 @@ export interface CommandOptions {
   dateSource?: string;
   /** 显示模板示例 */
   templateExamples?: boolean;
+  /** 列出可用模型 */
+  models?: boolean;
+  /** 是否使用结果缓存（--no-cache 时为 false） */
+  cache?: boolean;
+  /** 文件名大小写风格（仅对本次运行生效） */
+  case?: FilenameCase;
+  /** 文件名单词分隔符（仅对本次运行生效） */
+  separator?: string;
+  /** 本次运行的费用上限（美元） */
+  maxCost?: number;
+  /** 录制提供商响应的目录 */
+  record?: string;
+  /** 回放提供商响应的目录 */
+  replay?: string;
+  /** 使用的提示词配置档 */
+  profile?: string;
+  /** 取帧数（仅对本次运行生效） */
+  frameCount?: number;
+  /** 取帧起始偏移（仅对本次运行生效） */
+  startOffset?: string;
+  /** 按时长调整取帧数的规则（仅对本次运行生效） */
+  frameRules?: string;
+  /** 关键帧策略的最大取帧数（仅对本次运行生效） */
+  maxKeyframes?: number;
+  /** 拼接网格图发送（仅对本次运行生效） */
+  contactSheet?: boolean;
 }
 
 /** AI 分析请求 */
 export interface AnalysisRequest {
-  /** 图像文件路径列表 */
-  imagePaths: string[];
+  /** 待分析的对象列表（帧已优化） */
+  targets: AnalysisTarget[];
   /** 用户提示词 */
   userPrompt?: string;
   /** 是否解析多个结果 */
@@ -215,6 +506,183 @@ export interface AnalysisRequest {
   };
 }
 
+/** 模型返回的单条原始结果（未经校验） */
+export interface RawAnalysisItem {
+  /** 图像 ID */
+  id?: unknown;
+  /** 建议的文件名 */
+  filename?: unknown;
+  /** 描述内容 */
+  description?: unknown;
+  /** 标签列表 */
+  tags?: unknown;
+  /** 内容类别 */
+  category?: unknown;
+}
+
+/** 校验通过的分析条目 */
+export interface AnalysisItem {
+  /** 图像 ID */
+  id: string;
+  /** 建议的文件名 */
+  filename: string;
+  /** 描述内容 */
+  description: string;
+  /** 标签列表 */
+  tags: string[];
+  /** 内容类别 */
+  category: string;
+}
+
+/** 带 ID 标注的请求对象 */
+export interface LabeledItem {
+  /** 对象 ID，模型需在结果中原样返回 */
+  id: string;
+  /** 已优化的帧列表，为空时仅根据附加说明命名 */
+  frames: AnalysisFrame[];
+  /** 附加说明（如各片段描述） */
+  context?: string;
+  /** 文件信息（原文件名、文件夹、EXIF 等），仅在开启文件信息注入时存在 */
+  fileContext?: string;
+}
+
+/** 分析对象中的一帧 */
+export interface AnalysisFrame {
+  /** 图像文件路径 */
+  path: string;
+  /** 帧在视频中的时间点（秒），图片或时间未知时为空 */
+  timestamp?: number;
+  /** 拼接图的网格布局，仅当图像是多帧或多张图片拼接而成的网格图时存在 */
+  sheet?: ContactSheetLayout;
+}
+
+/** 拼接图的网格布局 */
+export interface ContactSheetLayout {
+  /** 列数 */
+  columns: number;
+  /** 行数 */
+  rows: number;
+  /** 各格左上角的标注，按从左到右、从上到下的顺序排列 */
+  labels: string[];
+  /** 对象所在的格（从 1 开始），仅多张图片共用一张拼接图时存在 */
+  cell?: number;
+}
+
+/** 待分析的对象：一张图片，或同一视频按时间顺序排列的多帧 */
+export interface AnalysisTarget {
+  /** 结果对应的文件路径 */
+  path: string;
+  /** 帧列表 */
+  frames: AnalysisFrame[];
+  /** 附加说明 */
+  context?: string;
+  /** 视频时长（秒），仅视频存在，作为文件信息发送 */
+  duration?: number;
+  /** 文件信息，仅在开启文件信息注入时存在 */
+  fileContext?: string;
+}
+
+/** 提供商分析请求 */
+export interface ProviderAnalysisRequest {
+  /** 完整提示词 */
+  prompt: string;
+  /** 带 ID 标注的分析对象，提供商需在每个对象前附上其 ID，视频的各帧按顺序排列 */
+  items: LabeledItem[];
+  /** 响应结构（JSON Schema），提供商应使用原生结构化输出能力约束模型 */
+  responseSchema: object;
+}
+
+/** 提供商分析响应 */
+export interface ProviderAnalysisResponse {
+  /** 解析后的结构化结果，为 null 表示响应不符合结构 */
+  results: RawAnalysisItem[] | null;
+  /** 模型返回的原始文本 */
+  rawText: string;
+  /** 本次请求的 token 用量，服务未返回时为空 */
+  usage?: TokenUsage;
+}
+
+/** 录制的提供商响应（--record 写入，--replay 读取） */
+export interface ProviderRecording {
+  /** 请求指纹 */
+  fingerprint: string;
+  /** 提供商名称 */
+  provider: VisionProviderName;
+  /** 模型名称 */
+  model: string;
+  /** 录制时间 */
+  recordedAt: string;
+  /** 请求中的对象 ID 列表 */
+  itemIds: string[];
+  /** 提供商的原始响应，请求失败时为空 */
+  response?: {
+    /** 模型返回的原始文本 */
+    rawText: string;
+    /** token 用量 */
+    usage?: TokenUsage;
+  };
+  /** 请求失败时的错误，回放时按原样抛出 */
+  error?: {
+    /** 错误类型 */
+    kind: ProviderErrorKind;
+    /** 错误信息 */
+    message: string;
+    /** HTTP 状态码 */
+    status?: number;
+    /** 服务端建议的重试等待时间（毫秒） */
+    retryAfterMs?: number;
+  };
+}
+
+/** token 用量 */
+export interface TokenUsage {
+  /** 输入 token 数（提示词和图像） */
+  promptTokens: number;
+  /** 输出 token 数（含思考过程） */
+  outputTokens: number;
+  /** 按模型分别统计的用量（键为模型名称，与价格表一致），备用模型按各自的价格计费 */
+  byModel?: Record<string, TokenUsage>;
+}
+
+/** 模型价格（美元 / 百万 tokens） */
+export interface ModelPricing {
+  /** 输入价格 */
+  input: number;
+  /** 输出价格 */
+  output: number;
+}
+
+/** 提供商连接测试结果 */
+export interface ProviderTestResult {
+  /** 是否成功 */
+  success: boolean;
+  /** 错误信息 */
+  error?: string;
+  /** 使用的模型 */
+  model?: string;
+  /** 检查过程的补充信息 */
+  details?: string[];
+}
+
+/**
+ * 视觉模型提供商
+ * 负责把图像和提示词发送给具体的模型服务，并返回结构化结果
+ */
+export interface VisionProvider {
+  /** 提供商名称 */
+  readonly name: VisionProviderName;
+  /** 使用的模型 */
+  readonly model: string;
+  /** 分析一组图像 */
+  analyzeImages(
+    request: ProviderAnalysisRequest,
+  ): Promise<ProviderAnalysisResponse>;
+  /** 测试连接 */
+  testConnection(): Promise<ProviderTestResult>;
+  /** 列出可用模型 */
+  listModels(): Promise<string[]>;
+}
+
 /** 批量处理统计信息 */
 export interface BatchProcessingStats {
   /** 总文件数 */
@@ -234,6 +702,8 @@ export interface BatchProcessingStats {
     /** 失败批次数 */
     failedBatches: number;
   };
+  /** 请求重试次数 */
+  retryCount: number;
 }
 
 /** FFmpeg 依赖检查结果 */
@@ -265,6 +735,18 @@ export interface MediaBatchItem {
   };
 }
 
+/** 混合批次：一次请求中分析的媒体项，视频的所有帧作为一个整体 */
+export interface MixedBatch {
+  /** 批次中的媒体项 */
+  items: MediaBatchItem[];
+  /** 批次中的帧总数 */
+  frameCount: number;
+  /** 是否为需要分段分析后汇总命名的长视频 */
+  summarize: boolean;
+  /** 估算的输入 token 数（含提示词） */
+  estimatedTokens: number;
+}
+
 /** 媒体批量处理结果 */
 export interface MediaBatchResult {
   /** 批次项 */
@@ -289,6 +771,42 @@ export interface MixedBatchStats extends BatchProcessingStats {
   totalFrames: number;
   /** 帧提取时间 */
   frameExtractionTime: number;
+  /** 本次运行的 token 用量 */
+  tokenUsage: TokenUsage;
+  /** 估算费用（美元），未配置当前模型价格时为空 */
+  estimatedCost?: number;
+  /** 是否因达到费用上限而停止处理 */
+  budgetExceeded: boolean;
+  /** 由备用模型生成结果的文件数 */
+  fallbackFiles: number;
+}
+
+/** 运行预估结果（不调用 AI） */
+export interface RunEstimate {
+  /** 总文件数 */
+  totalFiles: number;
+  /** 图片文件数 */
+  imageFiles: number;
+  /** 视频文件数 */
+  videoFiles: number;
+  /** 无法探测的视频数（不计入帧数和批次） */
+  unprobedFiles: number;
+  /** 总帧数 */
+  totalFrames: number;
+  /** 批次数 */
+  batches: number;
+  /** 请求数（长视频分段分析和汇总需要多次请求） */
+  requests: number;
+  /** 估算的请求数据量（字节） */
+  payloadBytes: number;
+  /** 估算的 token 用量 */
+  tokenUsage: TokenUsage;
+  /** 估算费用（美元），未配置当前模型价格时为空 */
+  estimatedCost?: number;
+  /** 估算的帧提取耗时（秒） */
+  extractionSeconds: number;
+  /** 估算的 AI 分析耗时（秒，已考虑并行处理） */
+  analysisSeconds: number;
 }
 
 /** 临时文件清理函数类型 */
@@ -298,12 +816,22 @@ export type CleanupFunction = () => void | Promise<void>;
 declare global {
   namespace NodeJS {
     interface ProcessEnv {
+      /** Frame-Sense 视觉模型提供商 */
+      FRAME_SENSE_PROVIDER?: string;
       /** Frame-Sense Google Gemini API Key */
       FRAME_SENSE_API_KEY?: string;
-      /** Frame-Sense API 基础 URL */
+      /** Frame-Sense API 基础 URL（OpenAI 兼容接口） */
       FRAME_SENSE_API_BASE_URL?: string;
+      /** Frame-Sense OpenAI 兼容接口 API Key */
+      FRAME_SENSE_OPENAI_API_KEY?: string;
+      /** Frame-Sense OpenAI 兼容接口模型名称 */
+      FRAME_SENSE_OPENAI_MODEL?: string;
       /** Frame-Sense 默认模型名称 */
       FRAME_SENSE_MODEL?: string;
+      /** Frame-Sense Ollama 服务地址 */
+      FRAME_SENSE_OLLAMA_BASE_URL?: string;
+      /** Frame-Sense Ollama 模型名称 */
+      FRAME_SENSE_OLLAMA_MODEL?: string;
       /** Frame-Sense 批量处理大小 */
       FRAME_SENSE_BATCH_SIZE?: string;
       /** Frame-Sense 详细输出和调试模式 */
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { ConcurrencyUtils } from "@/utils/concurrency";
+
+describe("ConcurrencyUtils.mapWithConcurrency", () => {
+  it("同时运行的任务数不超过并发上限", async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await ConcurrencyUtils.mapWithConcurrency(
+      Array.from({ length: 8 }, (_, index) => index),
+      3,
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(5);
+        running--;
+      },
+    );
+
+    assert.equal(maxRunning, 3);
+  });
+
+  it("结果顺序与输入一致，与完成顺序无关", async () => {
+    const delays = [30, 5, 20, 1, 10];
+
+    const results = await ConcurrencyUtils.mapWithConcurrency(
+      delays,
+      2,
+      async (delay, index) => {
+        await sleep(delay);
+        return `${index}:${delay}`;
+      },
+    );
+
+    assert.deepEqual(results, ["0:30", "1:5", "2:20", "3:1", "4:10"]);
+  });
+
+  it("任务失败时返回其错误", async () => {
+    await assert.rejects(
+      ConcurrencyUtils.mapWithConcurrency([1, 2, 3], 2, async (item) => {
+        await sleep(1);
+        if (item === 2) {
+          throw new Error("任务 2 失败");
+        }
+        return item;
+      }),
+      { message: "任务 2 失败" },
+    );
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * 并发工具
+ * 提供限制并发数的任务池
+ */
+
+export class ConcurrencyUtils {
+  /**
+   * 以有限的并发数处理列表中的每一项
+   * @param items - 待处理的项目
+   * @param limit - 最大并发数（小于 1 时按 1 处理）
+   * @param worker - 处理函数
+   * @returns 与输入顺序一致的处理结果
+   */
+  public static async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    // 每个执行者循环领取下一个任务，直到全部领取完毕
+    const runners = Array.from(
+      { length: Math.min(Math.max(1, limit), items.length) },
+      async () => {
+        while (nextIndex < items.length) {
+          const index = nextIndex++;
+          results[index] = await worker(items[index], index);
+        }
+      },
+    );
+
+    await Promise.all(runners);
+    return results;
+  }
+}
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { createTempDir } from "@/test/helpers";
+import { FileContext } from "@/utils/file-context";
+
+describe("FileContext.describe", () => {
+  let temp: { dir: string; cleanup: () => void };
+  let videoPath: string;
+
+  before(() => {
+    temp = createTempDir();
+    videoPath = join(temp.dir, "trip", "clip.mp4");
+  });
+
+  after(() => temp.cleanup());
+
+  it("字段包含 duration 时附带视频时长", async () => {
+    const text = await FileContext.describe(
+      videoPath,
+      ["filename", "duration"],
+      "01:05",
+    );
+    assert.equal(text, "文件信息: 原文件名: clip.mp4，视频时长: 01:05");
+  });
+
+  it("字段不含 duration 时不发送视频时长", async () => {
+    const text = await FileContext.describe(videoPath, ["folder"], "01:05");
+    assert.equal(text, "文件信息: 所在文件夹: trip");
+  });
+
+  it("没有可发送的信息时返回 undefined", async () => {
+    assert.equal(
+      await FileContext.describe(videoPath, ["duration"]),
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * 文件信息
+ * 把原文件名、所在文件夹和 EXIF 信息整理为一段文字，随图像一起发送给模型作为命名参考
+ */
+
+import { basename, dirname } from "node:path";
+import dayjs from "dayjs";
+import type { PromptContextField } from "@/types";
+import { FileUtils } from "@/utils/file-utils";
+import { MetadataExtractor } from "@/utils/metadata-extractor";
+
+export class FileContext {
+  /** 所有字段，其中 GPS 坐标默认不发送 */
+  public static readonly FIELDS: PromptContextField[] = [
+    "filename",
+    "folder",
+    "duration",
+    "date",
+    "camera",
+    "gps",
+  ];
+
+  /** 默认发送的字段 */
+  public static readonly DEFAULT_FIELDS: PromptContextField[] = [
+    "filename",
+    "folder",
+    "duration",
+    "date",
+    "camera",
+  ];
+
+  /**
+   * 生成文件信息
+   * @param filePath - 原始文件路径
+   * @param fields - 允许发送的字段
+   * @param duration - 已格式化的视频时长，仅视频提供
+   * @returns 文件信息文本，没有可发送的信息时返回 undefined
+   */
+  public static async describe(
+    filePath: string,
+    fields: PromptContextField[],
+    duration?: string,
+  ): Promise<string | undefined> {
+    const parts: string[] = [];
+
+    if (fields.includes("filename")) {
+      parts.push(`原文件名: ${basename(filePath)}`);
+    }
+
+    if (fields.includes("folder")) {
+      const folder = basename(dirname(filePath));
+      if (folder && folder !== ".") {
+        parts.push(`所在文件夹: ${folder}`);
+      }
+    }
+
+    if (duration && fields.includes("duration")) {
+      parts.push(`视频时长: ${duration}`);
+    }
+
+    // EXIF 只从图片读取，避免把整个视频文件读入内存
+    const needsExif =
+      fields.includes("date") ||
+      fields.includes("camera") ||
+      fields.includes("gps");
+    const metadata =
+      needsExif && FileUtils.isImageFile(filePath)
+        ? await MetadataExtractor.extractImageInfo(filePath)
+        : null;
+
+    if (metadata?.creationDate && fields.includes("date")) {
+      parts.push(
+        `拍摄时间: ${dayjs(metadata.creationDate).format("YYYY-MM-DD HH:mm")}`,
+      );
+    }
+
+    if (fields.includes("camera")) {
+      if (metadata?.camera) {
+        parts.push(`相机: ${metadata.camera}`);
+      }
+      if (metadata?.lens) {
+        parts.push(`镜头: ${metadata.lens}`);
+      }
+    }
+
+    if (metadata?.gps && fields.includes("gps")) {
+      parts.push(
+        `GPS 坐标: ${metadata.gps.latitude.toFixed(4)}, ${metadata.gps.longitude.toFixed(4)}`,
+      );
+    }
+
+    return parts.length > 0 ? `文件信息: ${parts.join("，")}` : undefined;
+  }
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FileUtils } from "@/utils/file-utils";
+
+describe("FileUtils.sanitizeFilename", () => {
+  it("默认保留原样，空白替换为下划线", () => {
+    assert.equal(
+      FileUtils.sanitizeFilename("Sunset at  the-Beach"),
+      "Sunset_at_the-Beach",
+    );
+  });
+
+  it("按风格转换大小写并使用对应的分隔符", () => {
+    const name = "sunsetBeach golden_hour";
+
+    assert.equal(
+      FileUtils.sanitizeFilename(name, { case: "snake" }),
+      "sunset_beach_golden_hour",
+    );
+    assert.equal(
+      FileUtils.sanitizeFilename(name, { case: "kebab" }),
+      "sunset-beach-golden-hour",
+    );
+    assert.equal(
+      FileUtils.sanitizeFilename(name, { case: "camel" }),
+      "sunsetBeachGoldenHour",
+    );
+    assert.equal(
+      FileUtils.sanitizeFilename(name, { case: "title" }),
+      "Sunset_Beach_Golden_Hour",
+    );
+  });
+
+  it("使用自定义分隔符", () => {
+    assert.equal(
+      FileUtils.sanitizeFilename("sunset beach", {
+        case: "title",
+        separator: " ",
+      }),
+      "Sunset Beach",
+    );
+  });
+
+  it("替换非法字符，结果为空时使用 unnamed", () => {
+    assert.equal(
+      FileUtils.sanitizeFilename("a/b:c?", { case: "kebab" }),
+      "a-b-c",
+    );
+    assert.equal(FileUtils.sanitizeFilename('<>:"|?*'), "unnamed");
+  });
+
+  it("限制文件名长度", () => {
+    assert.equal(FileUtils.sanitizeFilename("a".repeat(300)).length, 255);
+  });
+
+  it("检查分隔符是否可以用在文件名中", () => {
+    assert.equal(FileUtils.isValidSeparator("-"), true);
+    assert.equal(FileUtils.isValidSeparator("/"), false);
+  });
+});
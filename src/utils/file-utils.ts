@@ -3,8 +3,10 @@
  * 提供文件操作、媒体文件识别、路径处理等功能
  */
 
+import { createHash } from "node:crypto";
 import {
   copyFileSync,
+  createReadStream,
   existsSync,
   mkdirSync,
   readdirSync,
@@ -14,6 +16,8 @@ import {
 import { tmpdir } from "node:os";
 import { basename, dirname, extname, join, resolve } from "node:path";
 import type {
+  FilenameCase,
+  FilenameStyleConfig,
   ImageFormat,
   MediaFileInfo,
   MediaFileType,
@@ -52,6 +56,25 @@ export class FileUtils {
   /** 非法文件名字符正则表达式 */
   private static readonly INVALID_FILENAME_CHARS = /[<>:"/\\|?*]/g;
 
+  /** 各文件名风格默认的单词分隔符 */
+  private static readonly DEFAULT_SEPARATORS: Record<FilenameCase, string> = {
+    snake: "_",
+    kebab: "-",
+    camel: "",
+    title: "_",
+    "as-is": "_",
+  };
+
+  /** 默认文件名风格：保留原样，空白替换为下划线 */
+  public static readonly DEFAULT_FILENAME_STYLE: FilenameStyleConfig = {
+    case: "as-is",
+  };
+
+  /** 支持的文件名风格 */
+  public static readonly FILENAME_CASES = Object.keys(
+    FileUtils.DEFAULT_SEPARATORS,
+  ) as FilenameCase[];
+
   /**
    * 检查文件是否存在
    * @param filePath - 文件路径
@@ -205,16 +228,23 @@ export class FileUtils {
   }
 
   /**
-   * 清理文件名，移除非法字符
+   * 清理文件名，移除非法字符并按风格拆分、拼接单词
    * @param filename - 原始文件名
+   * @param style - 文件名风格，默认保留原样并用下划线连接
    * @returns 清理后的文件名
    */
-  public static sanitizeFilename(filename: string): string {
-    let sanitized = filename
-      .replace(FileUtils.INVALID_FILENAME_CHARS, "_") // 替换非法字符
-      .replace(/\s+/g, "_") // 替换空格
-      .replace(/_{2,}/g, "_") // 合并连续下划线
-      .replace(/^_|_$/g, "") // 移除首尾下划线
+  public static sanitizeFilename(
+    filename: string,
+    style: FilenameStyleConfig = FileUtils.DEFAULT_FILENAME_STYLE,
+  ): string {
+    const separator = FileUtils.getSeparator(style);
+    const words = FileUtils.splitWords(
+      filename.replace(FileUtils.INVALID_FILENAME_CHARS, "_"), // 替换非法字符
+      style.case,
+    );
+
+    let sanitized = FileUtils.applyCase(words, style.case)
+      .join(separator)
       .trim();
 
     // 限制文件名长度
@@ -230,25 +260,103 @@ export class FileUtils {
     return sanitized;
   }
 
+  /**
+   * 获取文件名风格实际使用的单词分隔符
+   * @param style - 文件名风格
+   * @returns 单词分隔符
+   */
+  public static getSeparator(style: FilenameStyleConfig): string {
+    return style.separator ?? FileUtils.DEFAULT_SEPARATORS[style.case];
+  }
+
+  /**
+   * 检查单词分隔符是否可以用在文件名中
+   * @param separator - 单词分隔符
+   * @returns 是否有效
+   */
+  public static isValidSeparator(separator: string): boolean {
+    return (
+      separator.replace(FileUtils.INVALID_FILENAME_CHARS, "") === separator
+    );
+  }
+
+  /**
+   * 将文件名拆分为单词
+   * as-is 只按空白和下划线拆分；其他风格还按连字符和小写/大写边界拆分（如 sunsetBeach）
+   * @param filename - 文件名
+   * @param filenameCase - 文件名风格
+   * @returns 单词列表
+   */
+  private static splitWords(
+    filename: string,
+    filenameCase: FilenameCase,
+  ): string[] {
+    if (filenameCase === "as-is") {
+      return filename.split(/[\s_]+/).filter(Boolean);
+    }
+
+    return filename
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[\s_-]+/)
+      .filter(Boolean);
+  }
+
+  /**
+   * 按文件名风格转换单词大小写
+   * @param words - 单词列表
+   * @param filenameCase - 文件名风格
+   * @returns 转换后的单词列表
+   */
+  private static applyCase(
+    words: string[],
+    filenameCase: FilenameCase,
+  ): string[] {
+    const capitalize = (word: string) =>
+      word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+    switch (filenameCase) {
+      case "snake":
+      case "kebab":
+        return words.map((word) => word.toLowerCase());
+      case "camel":
+        return words.map((word, index) =>
+          index === 0 ? word.toLowerCase() : capitalize(word),
+        );
+      case "title":
+        return words.map(capitalize);
+      default:
+        return words;
+    }
+  }
+
   /**
    * 生成唯一的文件名，避免冲突
    * @param dirPath - 目录路径
    * @param filename - 原始文件名
    * @param extension - 文件扩展名
+   * @param reservedPaths - 已被占用但尚未写入磁盘的路径
+   * @param style - 文件名风格
    * @returns 唯一的文件名
    */
   public static generateUniqueFilename(
     dirPath: string,
     filename: string,
     extension: string,
+    reservedPaths?: Set<string>,
+    style: FilenameStyleConfig = FileUtils.DEFAULT_FILENAME_STYLE,
   ): string {
-    const sanitizedName = FileUtils.sanitizeFilename(filename);
+    const sanitizedName = FileUtils.sanitizeFilename(filename, style);
+    const separator = FileUtils.getSeparator(style);
     let uniqueName = sanitizedName;
     let counter = 1;
+    const isTaken = (name: string) => {
+      const filePath = join(dirPath, `${name}.${extension}`);
+      return FileUtils.fileExists(filePath) || !!reservedPaths?.has(filePath);
+    };
 
     // 检查文件名是否已存在，如果存在则添加数字后缀
-    while (FileUtils.fileExists(join(dirPath, `${uniqueName}.${extension}`))) {
-      uniqueName = `${sanitizedName}_${counter}`;
+    while (isTaken(uniqueName)) {
+      uniqueName = `${sanitizedName}${separator}${counter}`;
       counter++;
     }
 
@@ -325,6 +433,19 @@ export class FileUtils {
     }
   }
 
+  /**
+   * 计算文件内容的 SHA-256 哈希（流式读取，适用于大文件）
+   * @param filePath - 文件路径
+   * @returns 十六进制哈希值
+   */
+  public static async hashFile(filePath: string): Promise<string> {
+    const hash = createHash("sha256");
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest("hex");
+  }
+
   /**
    * 获取临时目录路径
    * @param subDir - 子目录名称
@@ -393,6 +514,35 @@ export class FileUtils {
     return extname(filePath).toLowerCase().slice(1);
   }
 
+  /**
+   * 获取图像的 MIME 类型
+   * @param imagePath - 图像路径
+   * @returns MIME 类型
+   */
+  public static getMimeType(imagePath: string): string {
+    const extension = FileUtils.getFileExtension(imagePath);
+
+    switch (extension) {
+      case "jpg":
+      case "jpeg":
+        return "image/jpeg";
+      case "png":
+        return "image/png";
+      case "gif":
+        return "image/gif";
+      case "webp":
+        return "image/webp";
+      case "bmp":
+        return "image/bmp";
+      case "tiff":
+        return "image/tiff";
+      case "svg":
+        return "image/svg+xml";
+      default:
+        return "image/jpeg";
+    }
+  }
+
   /**
    * 获取不带扩展名的文件名
    * @param filePath - 文件路径
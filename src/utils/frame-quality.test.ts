@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import sharp from "sharp";
+import { createSolidImage, createTempDir } from "@/test/helpers";
+import { FrameQuality } from "@/utils/frame-quality";
+
+const SIZE = 256;
+
+/**
+ * 按像素函数生成灰度 PNG
+ * @param path - 输出路径
+ * @param pixel - 根据坐标返回灰度值
+ * @returns 图像路径
+ */
+async function createGreyImage(
+  path: string,
+  pixel: (x: number, y: number) => number,
+): Promise<string> {
+  const data = Buffer.alloc(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      data[y * SIZE + x] = pixel(x, y);
+    }
+  }
+  await sharp(data, { raw: { width: SIZE, height: SIZE, channels: 1 } })
+    .png()
+    .toFile(path);
+  return path;
+}
+
+describe("FrameQuality.assess", () => {
+  let temp: { dir: string; cleanup: () => void };
+
+  before(() => {
+    temp = createTempDir();
+  });
+
+  after(() => temp.cleanup());
+
+  it("接近全黑的画面判定为过暗", async () => {
+    const path = await createSolidImage(join(temp.dir, "dark.jpg"), {
+      r: 5,
+      g: 5,
+      b: 5,
+    });
+    assert.equal((await FrameQuality.assess(path)).issue, "dark");
+  });
+
+  it("全白画面判定为过亮", async () => {
+    const path = await createSolidImage(join(temp.dir, "bright.jpg"), {
+      r: 255,
+      g: 255,
+      b: 255,
+    });
+    assert.equal((await FrameQuality.assess(path)).issue, "bright");
+  });
+
+  it("纯灰画面判定为纯色", async () => {
+    const path = await createSolidImage(join(temp.dir, "flat.jpg"), {
+      r: 128,
+      g: 128,
+      b: 128,
+    });
+    assert.equal((await FrameQuality.assess(path)).issue, "flat");
+  });
+
+  it("平滑渐变判定为模糊", async () => {
+    const path = await createGreyImage(join(temp.dir, "blurry.png"), (x) =>
+      Math.round(40 + (x / (SIZE - 1)) * 170),
+    );
+    const score = await FrameQuality.assess(path);
+    assert.equal(score.issue, "blurry");
+    assert.ok(score.contrast >= 8);
+  });
+
+  it("边缘清晰的棋盘格画面合格", async () => {
+    const path = await createGreyImage(join(temp.dir, "sharp.png"), (x, y) =>
+      (Math.floor(x / 8) + Math.floor(y / 8)) % 2 ? 200 : 50,
+    );
+    const score = await FrameQuality.assess(path);
+    assert.equal(score.issue, undefined);
+    assert.ok(score.sharpness > 2.5);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * 帧画质评分
+ * 使用 sharp 统计灰度图的平均亮度、对比度和拉普拉斯锐度，识别黑场、白场、纯色和模糊的视频帧
+ */
+
+import sharp from "sharp";
+import type { FrameQualityScore } from "@/types";
+
+export class FrameQuality {
+  /** 评分前缩放到的最大边长，使不同分辨率的锐度可以比较 */
+  private static readonly ANALYSIS_SIZE = 512;
+  /** 平均亮度低于此值视为黑场 */
+  private static readonly MIN_LUMINANCE = 16;
+  /** 平均亮度高于此值视为白场 */
+  private static readonly MAX_LUMINANCE = 240;
+  /** 亮度标准差低于此值视为纯色画面（淡入淡出、转场） */
+  private static readonly MIN_CONTRAST = 8;
+  /** 拉普拉斯响应的标准差低于此值视为模糊 */
+  private static readonly MIN_SHARPNESS = 2.5;
+  /** 拉普拉斯算子 */
+  private static readonly LAPLACIAN_KERNEL = [0, 1, 0, 1, -4, 1, 0, 1, 0];
+
+  /**
+   * 评估帧画质
+   * @param framePath - 帧图像路径
+   * @returns 画质评分
+   */
+  public static async assess(framePath: string): Promise<FrameQualityScore> {
+    const grey = await sharp(framePath)
+      .greyscale()
+      .resize({
+        width: FrameQuality.ANALYSIS_SIZE,
+        height: FrameQuality.ANALYSIS_SIZE,
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const raw = { raw: grey.info };
+
+    const [greyStats, laplacian] = await Promise.all([
+      sharp(grey.data, raw).stats(),
+      // 偏移 128 保留负响应，锐利的边缘使响应分布更分散
+      sharp(grey.data, raw)
+        .convolve({
+          width: 3,
+          height: 3,
+          kernel: FrameQuality.LAPLACIAN_KERNEL,
+          offset: 128,
+        })
+        .raw()
+        .toBuffer({ resolveWithObject: true }),
+    ]);
+    const laplacianStats = await sharp(laplacian.data, {
+      raw: laplacian.info,
+    }).stats();
+
+    const luminance = greyStats.channels[0].mean;
+    const contrast = greyStats.channels[0].stdev;
+    const sharpness = laplacianStats.channels[0].stdev;
+
+    return {
+      luminance,
+      contrast,
+      sharpness,
+      issue: FrameQuality.findIssue(luminance, contrast, sharpness),
+    };
+  }
+
+  /**
+   * 判断帧存在的画质问题
+   * @param luminance - 平均亮度
+   * @param contrast - 亮度标准差
+   * @param sharpness - 拉普拉斯响应的标准差
+   * @returns 画质问题，合格时返回 undefined
+   */
+  private static findIssue(
+    luminance: number,
+    contrast: number,
+    sharpness: number,
+  ): FrameQualityScore["issue"] {
+    if (luminance < FrameQuality.MIN_LUMINANCE) {
+      return "dark";
+    }
+    if (luminance > FrameQuality.MAX_LUMINANCE) {
+      return "bright";
+    }
+    if (contrast < FrameQuality.MIN_CONTRAST) {
+      return "flat";
+    }
+    if (sharpness < FrameQuality.MIN_SHARPNESS) {
+      return "blurry";
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取画质问题的说明
+   * @param issue - 画质问题
+   * @returns 说明文字
+   */
+  public static describeIssue(
+    issue: NonNullable<FrameQualityScore["issue"]>,
+  ): string {
+    switch (issue) {
+      case "dark":
+        return "画面过暗";
+      case "bright":
+        return "画面过亮";
+      case "flat":
+        return "纯色画面";
+      case "blurry":
+        return "画面模糊";
+    }
+  }
+}
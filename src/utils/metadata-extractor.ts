@@ -5,6 +5,7 @@
 
 import { readFile } from "node:fs/promises";
 import type { ExifData } from "exif";
+import type { GeoCoordinates, ImageMetadata } from "@/types";
 import { FileUtils } from "@/utils/file-utils";
 import { progressLogger } from "@/utils/progress-logger";
 
@@ -64,8 +65,10 @@ export class MetadataExtractor {
 
       return new Promise((resolve, _reject) => {
         // 使用动态导入以避免构建时的模块问题
+        // exif 是 CommonJS 模块，在 ESM 中导出位于 default 上
         import("exif")
-          .then(({ ExifImage }) => {
+          .then((exif) => {
+            const { ExifImage } = exif.default ?? exif;
             try {
               new ExifImage({ image: buffer }, (error, exifData) => {
                 if (error) {
@@ -136,13 +139,9 @@ export class MetadataExtractor {
    * @param filePath - 图片文件路径
    * @returns 图片信息
    */
-  public static async extractImageInfo(filePath: string): Promise<{
-    width?: number;
-    height?: number;
-    camera?: string;
-    lens?: string;
-    creationDate?: Date;
-  } | null> {
+  public static async extractImageInfo(
+    filePath: string,
+  ): Promise<ImageMetadata | null> {
     try {
       const exifData = await MetadataExtractor.extractExifData(filePath);
 
@@ -150,13 +149,7 @@ export class MetadataExtractor {
         return null;
       }
 
-      const info: {
-        width?: number;
-        height?: number;
-        camera?: string;
-        lens?: string;
-        creationDate?: Date;
-      } = {};
+      const info: ImageMetadata = {};
 
       // 提取尺寸信息
       if (exifData.exif?.ExifImageWidth) {
@@ -176,6 +169,12 @@ export class MetadataExtractor {
         info.lens = exifData.exif.LensModel;
       }
 
+      // 提取拍摄地点
+      const gps = MetadataExtractor.parseGps(exifData);
+      if (gps) {
+        info.gps = gps;
+      }
+
       // 提取创建日期
       const creationDate =
         await MetadataExtractor.extractCreationDate(filePath);
@@ -190,6 +189,31 @@ export class MetadataExtractor {
     }
   }
 
+  /**
+   * 解析 EXIF GPS 坐标
+   * @param exifData - EXIF 数据
+   * @returns 十进制坐标，缺少经纬度时返回 null
+   */
+  private static parseGps(exifData: ExifData): GeoCoordinates | null {
+    const { GPSLatitude, GPSLatitudeRef, GPSLongitude, GPSLongitudeRef } =
+      exifData.gps || {};
+    if (!GPSLatitude?.length || !GPSLongitude?.length) {
+      return null;
+    }
+
+    // EXIF 以度、分、秒三个数值存储，南纬和西经用 Ref 标记
+    const toDecimal = ([degrees = 0, minutes = 0, seconds = 0]: number[]) =>
+      degrees + minutes / 60 + seconds / 3600;
+    const latitude = toDecimal(GPSLatitude) * (GPSLatitudeRef === "S" ? -1 : 1);
+    const longitude =
+      toDecimal(GPSLongitude) * (GPSLongitudeRef === "W" ? -1 : 1);
+
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      return null;
+    }
+    return { latitude, longitude };
+  }
+
   /**
    * 检查文件是否包含 EXIF 数据
    * @param filePath - 文件路径
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ProviderError } from "@/errors/provider-error";
+import type { RetryConfig } from "@/types";
+import { RetryUtils } from "@/utils/retry";
+
+const config: RetryConfig = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+
+describe("RetryUtils.getBackoffDelay", () => {
+  it("Retry-After 不超过最大等待时间", () => {
+    assert.equal(RetryUtils.getBackoffDelay(0, config, 5), 5);
+    assert.equal(RetryUtils.getBackoffDelay(0, config, 3600 * 1000), 10);
+  });
+
+  it("指数退避在上限的一半到上限之间", () => {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const expected = Math.min(2 ** attempt, config.maxDelayMs);
+      const delay = RetryUtils.getBackoffDelay(attempt, config);
+      assert.ok(delay >= Math.floor(expected / 2) && delay <= expected);
+    }
+  });
+});
+
+describe("RetryUtils.withRetry", () => {
+  it("重试临时错误直到成功", async () => {
+    let calls = 0;
+    const delays: number[] = [];
+
+    const result = await RetryUtils.withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) {
+          throw new ProviderError("rate limited", "transient", {
+            retryAfterMs: 3,
+          });
+        }
+        return "ok";
+      },
+      config,
+      (_error, _attempt, delayMs) => delays.push(delayMs),
+    );
+
+    assert.equal(result, "ok");
+    assert.deepEqual(delays, [3, 3]);
+  });
+
+  it("永久错误和超出重试次数时抛出", async () => {
+    let calls = 0;
+    await assert.rejects(
+      RetryUtils.withRetry(async () => {
+        calls++;
+        throw new ProviderError("invalid key", "auth");
+      }, config),
+      { kind: "auth" },
+    );
+    assert.equal(calls, 1);
+
+    calls = 0;
+    await assert.rejects(
+      RetryUtils.withRetry(async () => {
+        calls++;
+        throw new ProviderError("unavailable", "transient");
+      }, config),
+      { kind: "transient" },
+    );
+    assert.equal(calls, config.maxRetries + 1);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * 重试工具
+ * 对临时错误进行指数退避重试，并遵循服务端返回的 Retry-After
+ */
+
+import { ProviderError } from "@/errors/provider-error";
+import type { RetryConfig } from "@/types";
+
+export class RetryUtils {
+  /**
+   * 执行操作，遇到可重试的错误时按指数退避重试
+   * @param operation - 要执行的操作
+   * @param config - 重试配置
+   * @param onRetry - 每次重试前的回调
+   * @returns 操作结果
+   */
+  public static async withRetry<T>(
+    operation: () => Promise<T>,
+    config: RetryConfig,
+    onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const providerError = ProviderError.from(error);
+
+        if (!providerError.retryable || attempt >= config.maxRetries) {
+          throw providerError;
+        }
+
+        const delayMs = RetryUtils.getBackoffDelay(
+          attempt,
+          config,
+          providerError.retryAfterMs,
+        );
+        onRetry?.(providerError, attempt + 1, delayMs);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * 计算退避等待时间
+   * 服务端指定了等待时间时优先使用（不超过最大等待时间），否则使用带随机抖动的指数退避
+   * @param attempt - 已失败的次数（从 0 开始）
+   * @param config - 重试配置
+   * @param retryAfterMs - 服务端建议的等待时间
+   * @returns 等待时间（毫秒）
+   */
+  public static getBackoffDelay(
+    attempt: number,
+    config: RetryConfig,
+    retryAfterMs?: number,
+  ): number {
+    if (retryAfterMs !== undefined) {
+      // 避免 Retry-After 过大时长时间停滞
+      return Math.min(retryAfterMs, config.maxDelayMs);
+    }
+
+    const exponential = Math.min(
+      config.baseDelayMs * 2 ** attempt,
+      config.maxDelayMs,
+    );
+    // 在 [exponential / 2, exponential] 之间随机取值，避免多个请求同时重试
+    return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+  }
+}
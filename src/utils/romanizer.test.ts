@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Romanizer } from "@/utils/romanizer";
+
+describe("Romanizer.toPinyin", () => {
+  it("汉字转换为无声调拼音", () => {
+    assert.equal(Romanizer.toPinyin("海边日落"), "hai bian ri luo");
+    assert.equal(Romanizer.toPinyin("绿色"), "lv se");
+  });
+
+  it("带重音的拉丁字母去掉重音符号", () => {
+    assert.equal(Romanizer.toPinyin("café"), "cafe");
+    assert.equal(Romanizer.toPinyin("Zürich 夜景"), "Zurich ye jing");
+    assert.equal(Romanizer.toPinyin("São Paulo"), "Sao Paulo");
+  });
+
+  it("其余非 ASCII 字符替换为空格", () => {
+    assert.equal(Romanizer.toPinyin("日落🌅海边"), "ri luo hai bian");
+  });
+});
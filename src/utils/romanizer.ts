@@ -0,0 +1,30 @@
+/**
+ * 文件名罗马化
+ * 将中文转换为无声调拼音，供不支持 CJK 文件名的工具使用
+ */
+
+import { pinyin } from "pinyin-pro";
+
+export class Romanizer {
+  /**
+   * 将文本转换为只包含 ASCII 字符的拼音形式
+   * 汉字按词语读音转换为拼音，音节之间以空格分隔；带重音的拉丁字母去掉重音符号（café → cafe），
+   * 其余非 ASCII 字符替换为空格
+   * @param text - 原始文本
+   * @returns 转换后的文本
+   */
+  public static toPinyin(text: string): string {
+    // 先分解出重音符号并去掉，保留基本字母，再替换其余非 ASCII 字符
+    return pinyin(text, {
+      toneType: "none",
+      nonZh: "consecutive",
+      separator: " ",
+      v: true,
+    })
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^\x20-\x7E]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
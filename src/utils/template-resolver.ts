@@ -4,33 +4,36 @@
  */
 
 import dayjs from "dayjs";
-import type { FilenameTemplateConfig } from "@/types";
+import type { FilenameTemplateConfig, TemplateFields } from "@/types";
 import { FileUtils } from "@/utils/file-utils";
 import { MetadataExtractor } from "@/utils/metadata-extractor";
 import { progressLogger } from "@/utils/progress-logger";
 
 export class TemplateResolver {
+  /** 变量占位标记，日期替换完成前代替变量值 */
+  private static readonly PLACEHOLDER = "\uE000";
+
   /**
    * 解析文件名模板
    * @param template - 模板字符串，如 "2025-11${ai文案}" 或 "YYYY-MM-DD_${ai文案}"
-   * @param aiSuggestedName - AI 分析的文件名
+   * @param fields - AI 分析结果中可供模板引用的字段
    * @param filePath - 原始文件路径
    * @param templateConfig - 模板配置
    * @returns 解析后的文件名
    */
   public static async resolveTemplate(
     template: string,
-    aiSuggestedName: string,
+    fields: TemplateFields,
     filePath: string,
     templateConfig: FilenameTemplateConfig,
   ): Promise<string> {
     try {
-      let resolvedTemplate = template;
-
-      // 1. 替换 AI 文案变量
-      resolvedTemplate = TemplateResolver.replaceAiVariables(
-        resolvedTemplate,
-        aiSuggestedName,
+      // 1. 先用占位标记代替 AI 变量，避免 AI 生成的内容（如"日""MM"）被当作日期格式替换
+      const values: string[] = [];
+      let resolvedTemplate = TemplateResolver.replaceAiVariables(
+        template,
+        fields,
+        values,
       );
 
       // 2. 自动检测并处理日期时间替换
@@ -45,46 +48,68 @@ export class TemplateResolver {
         );
       }
 
-      // 3. 清理并返回结果
+      // 3. 填入 AI 变量的值
+      resolvedTemplate = resolvedTemplate.replace(
+        new RegExp(
+          `${TemplateResolver.PLACEHOLDER}(\\d+)${TemplateResolver.PLACEHOLDER}`,
+          "g",
+        ),
+        (_, index) => values[Number(index)],
+      );
+
+      // 4. 清理并返回结果
       return FileUtils.sanitizeFilename(resolvedTemplate);
     } catch (error) {
       progressLogger.error(`模板解析失败: ${template}, ${error}`);
       // 如果模板解析失败，返回原始的 AI 建议名称
-      return FileUtils.sanitizeFilename(aiSuggestedName);
+      return FileUtils.sanitizeFilename(fields.suggestedName);
     }
   }
 
   /**
-   * 替换 AI 文案变量
+   * 将 AI 变量替换为占位标记
    * @param template - 模板字符串
-   * @param aiSuggestedName - AI 建议的文件名
+   * @param fields - AI 分析字段
+   * @param values - 收集占位标记对应的变量值
    * @returns 替换后的模板
    */
   private static replaceAiVariables(
     template: string,
-    aiSuggestedName: string,
+    fields: TemplateFields,
+    values: string[],
   ): string {
     // 支持多种 AI 变量格式
-    const aiVariables = [
-      "{ai}",
-      "{AI}",
-      "{desc}",
-      "{description}",
-      "{content}",
-      "{name}",
-      "{summary}",
-      "{caption}",
-      // 兼容旧格式
-      "$" + "{ai文案}",
-      "$" + "{ai}",
+    const variableValues: Array<[string[], string]> = [
+      [
+        [
+          "{ai}",
+          "{AI}",
+          "{content}",
+          "{name}",
+          "{summary}",
+          "{caption}",
+          // 兼容旧格式
+          "$" + "{ai文案}",
+          "$" + "{ai}",
+        ],
+        fields.suggestedName,
+      ],
+      [["{desc}", "{description}"], fields.description],
+      [["{tags}"], fields.tags.join("_")],
+      [["{category}"], fields.category],
     ];
 
     let result = template;
-    for (const variable of aiVariables) {
-      result = result.replace(
-        new RegExp(variable.replace(/[{}$]/g, "\\$&"), "g"),
-        aiSuggestedName,
-      );
+    for (const [variables, value] of variableValues) {
+      const placeholder = `${TemplateResolver.PLACEHOLDER}${values.length}${TemplateResolver.PLACEHOLDER}`;
+      values.push(value);
+
+      for (const variable of variables) {
+        result = result.replace(
+          new RegExp(variable.replace(/[{}$]/g, "\\$&"), "g"),
+          placeholder,
+        );
+      }
     }
 
     return result;
@@ -197,7 +222,7 @@ export class TemplateResolver {
 
     // 检查是否包含 AI 变量
     const aiVariablePattern =
-      /\{(ai|AI|desc|description|content|name|summary|caption)\}|\$\{(ai文案|ai)\}/g;
+      /\{(ai|AI|desc|description|tags|category|content|name|summary|caption)\}|\$\{(ai文案|ai)\}/g;
 
     if (!aiVariablePattern.test(template)) {
       warnings.push("模板中没有 AI 内容变量，建议添加 {ai} 或 {desc}");
@@ -291,6 +316,16 @@ export class TemplateResolver {
         template: "HH-mm-ss_{ai}",
         description: "仅时间格式 + AI 分析内容",
       },
+      {
+        name: "按类别归类",
+        template: "{category}_YYYY-MM-DD_{ai}",
+        description: "内容类别 + 日期 + AI 分析内容",
+      },
+      {
+        name: "附带标签",
+        template: "{ai}_{tags}",
+        description: "AI 分析内容 + 标签",
+      },
     ];
   }
 }
@@ -10,7 +10,10 @@ import type {
   AppConfig,
   BatchProcessingStats,
   MixedBatchStats,
+  PromptProfile,
   RenameResult,
+  ResultCacheStats,
+  RunEstimate,
 } from "@/types";
 import { FileUtils } from "./file-utils";
 
@@ -60,6 +63,12 @@ export class UIUtils {
         `${chalk.bold(`${index + 1}.`)} ${chalk.cyan(result.filename)}`,
       );
       console.log(`   ${chalk.gray("描述:")} ${result.description}`);
+      console.log(`   ${chalk.gray("类别:")} ${result.category}`);
+      if (result.model) {
+        console.log(
+          `   ${chalk.gray("模型:")} ${result.provider}/${result.model}${result.fallback ? chalk.yellow(" (备用)") : ""}`,
+        );
+      }
       if (result.tags.length > 0) {
         console.log(
           `   ${chalk.gray("标签:")} ${result.tags.map((tag) => chalk.magenta(tag)).join(", ")}`,
@@ -87,6 +96,7 @@ export class UIUtils {
         console.log(
           `${chalk.green("✓")} ${chalk.bold(`${index + 1}.`)} ${chalk.cyan(originalName)} → ${chalk.green(newName)}`,
         );
+        UIUtils.printAnalysisSummary(result.analysisResult);
       } else {
         console.log(
           `${chalk.red("✗")} ${chalk.bold(`${index + 1}.`)} ${chalk.cyan(originalName)} → ${chalk.red("失败")}`,
@@ -101,7 +111,11 @@ export class UIUtils {
    * @param previews - 预览信息列表
    */
   static printRenamePreview(
-    previews: { originalName: string; newName: string }[],
+    previews: {
+      originalName: string;
+      newName: string;
+      analysisResult?: AnalysisResult;
+    }[],
   ): void {
     console.log(chalk.bold("\n 重命名预览:"));
     console.log("─".repeat(80));
@@ -110,10 +124,27 @@ export class UIUtils {
       console.log(
         `${chalk.bold(`${index + 1}.`)} ${chalk.cyan(preview.originalName)} → ${chalk.green(preview.newName)}`,
       );
+      if (preview.analysisResult) {
+        UIUtils.printAnalysisSummary(preview.analysisResult);
+      }
       console.log();
     });
   }
 
+  /**
+   * 打印一行分析摘要：类别、描述和标签，由备用模型生成时注明模型
+   * @param result - 分析结果
+   */
+  private static printAnalysisSummary(result: AnalysisResult): void {
+    const tags = result.tags.map((tag) => chalk.magenta(`#${tag}`)).join(" ");
+    const fallback = result.fallback
+      ? chalk.yellow(` (备用模型 ${result.provider}/${result.model})`)
+      : "";
+    console.log(
+      `   ${chalk.gray(`[${result.category}]`)} ${result.description}${tags ? ` ${tags}` : ""}${fallback}`,
+    );
+  }
+
   /**
    * 打印统计信息
    * @param stats - 统计数据
@@ -127,6 +158,11 @@ export class UIUtils {
     console.log(
       `${chalk.gray("处理时间:")} ${chalk.bold((stats.totalProcessingTime / 1000).toFixed(2))}s`,
     );
+    if (stats.retryCount > 0) {
+      console.log(
+        `${chalk.gray("请求重试:")} ${chalk.yellow(stats.retryCount)} 次`,
+      );
+    }
 
     // 如果是混合批量处理统计，显示更详细的信息
     if ("imageFiles" in stats && "videoFiles" in stats) {
@@ -144,6 +180,29 @@ export class UIUtils {
       console.log(
         `${chalk.gray("帧提取时间:")} ${chalk.bold((mixedStats.frameExtractionTime / 1000).toFixed(2))}s`,
       );
+
+      console.log(chalk.bold("\n 用量统计:"));
+      console.log(
+        `${chalk.gray("输入 tokens:")} ${chalk.cyan(mixedStats.tokenUsage.promptTokens)}`,
+      );
+      console.log(
+        `${chalk.gray("输出 tokens:")} ${chalk.cyan(mixedStats.tokenUsage.outputTokens)}`,
+      );
+      console.log(
+        `${chalk.gray("估算费用:")} ${
+          mixedStats.estimatedCost !== undefined
+            ? chalk.bold(`$${mixedStats.estimatedCost.toFixed(4)}`)
+            : chalk.dim("未配置当前模型的价格")
+        }`,
+      );
+      if (mixedStats.budgetExceeded) {
+        console.log(chalk.yellow("已达到费用上限，剩余文件未处理"));
+      }
+      if (mixedStats.fallbackFiles > 0) {
+        console.log(
+          `${chalk.gray("备用模型:")} ${chalk.yellow(mixedStats.fallbackFiles)} 个文件的结果由备用模型生成`,
+        );
+      }
     }
 
     // 批次统计
@@ -162,6 +221,68 @@ export class UIUtils {
     console.log();
   }
 
+  /**
+   * 打印运行预估
+   * @param estimate - 预估结果
+   */
+  static printRunEstimate(estimate: RunEstimate): void {
+    console.log(chalk.bold("\n 运行预估（未调用 AI）:"));
+    console.log("─".repeat(50));
+    console.log(
+      `${chalk.gray("文件:")} ${chalk.bold(estimate.totalFiles)}（图像 ${estimate.imageFiles}，视频 ${estimate.videoFiles}）`,
+    );
+    if (estimate.unprobedFiles > 0) {
+      console.log(
+        `${chalk.gray("未计入:")} ${chalk.yellow(estimate.unprobedFiles)} 个无法探测的视频`,
+      );
+    }
+    console.log(`${chalk.gray("总帧数:")} ${chalk.cyan(estimate.totalFrames)}`);
+    console.log(`${chalk.gray("批次数:")} ${chalk.cyan(estimate.batches)}`);
+    console.log(`${chalk.gray("请求数:")} ${chalk.cyan(estimate.requests)}`);
+    console.log(
+      `${chalk.gray("请求数据量:")} 约 ${chalk.cyan(FileUtils.formatFileSize(estimate.payloadBytes))}`,
+    );
+    console.log(
+      `${chalk.gray("输入 tokens:")} 约 ${chalk.cyan(estimate.tokenUsage.promptTokens)}`,
+    );
+    console.log(
+      `${chalk.gray("输出 tokens:")} 约 ${chalk.cyan(estimate.tokenUsage.outputTokens)}`,
+    );
+    console.log(
+      `${chalk.gray("估算费用:")} ${
+        estimate.estimatedCost !== undefined
+          ? chalk.bold(`约 $${estimate.estimatedCost.toFixed(4)}`)
+          : chalk.dim("未配置当前模型的价格")
+      }`,
+    );
+    console.log(
+      `${chalk.gray("预计耗时:")} 约 ${chalk.bold(UIUtils.formatDuration(estimate.extractionSeconds + estimate.analysisSeconds))}（帧提取 ${UIUtils.formatDuration(estimate.extractionSeconds)}，AI 分析 ${UIUtils.formatDuration(estimate.analysisSeconds)}）`,
+    );
+    console.log(
+      chalk.dim("\n预估不考虑结果缓存，耗时按经验值粗略估算，仅供参考"),
+    );
+    console.log();
+  }
+
+  /**
+   * 格式化时长
+   * @param seconds - 秒数
+   * @returns 格式化后的时长，如 1 小时 5 分、3 分 20 秒
+   */
+  private static formatDuration(seconds: number): string {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+
+    if (hours > 0) {
+      return `${hours} 小时 ${minutes} 分`;
+    }
+    if (minutes > 0) {
+      return `${minutes} 分 ${total % 60} 秒`;
+    }
+    return `${total} 秒`;
+  }
+
   /**
    * 打印处理时间
    * @param timeMs - 处理时间（毫秒）
@@ -198,9 +319,53 @@ export class UIUtils {
 
     // API 配置
     console.log(chalk.bold("API 配置:"));
-    const maskedApiKey = `${config.api || "(未设置)"}`;
-    console.log(`  ${chalk.gray("API Key:")} ${chalk.yellow(maskedApiKey)}`);
-    console.log(`  ${chalk.gray("模型:")} ${chalk.cyan(config.defaultModel)}`);
+    console.log(`  ${chalk.gray("提供商:")} ${chalk.cyan(config.provider)}`);
+    if (config.provider === "ollama") {
+      console.log(
+        `  ${chalk.gray("服务地址:")} ${chalk.cyan(config.ollama.baseUrl)}`,
+      );
+      console.log(
+        `  ${chalk.gray("模型:")} ${chalk.cyan(config.ollama.model)}`,
+      );
+    } else if (config.provider === "openai") {
+      console.log(
+        `  ${chalk.gray("Base URL:")} ${chalk.cyan(config.openai.baseUrl)}`,
+      );
+      console.log(
+        `  ${chalk.gray("API Key:")} ${chalk.yellow(config.openai.apiKey || "(未设置)")}`,
+      );
+      console.log(
+        `  ${chalk.gray("模型:")} ${chalk.cyan(config.openai.model)}`,
+      );
+    } else {
+      const maskedApiKey = `${config.api || "(未设置)"}`;
+      console.log(`  ${chalk.gray("API Key:")} ${chalk.yellow(maskedApiKey)}`);
+      console.log(
+        `  ${chalk.gray("模型:")} ${chalk.cyan(config.defaultModel)}`,
+      );
+    }
+    const model =
+      config.provider === "ollama"
+        ? config.ollama.model
+        : config.provider === "openai"
+          ? config.openai.model
+          : config.defaultModel;
+    const pricing = config.pricing[model];
+    console.log(
+      `  ${chalk.gray("价格:")} ${chalk.cyan(pricing ? `输入 $${pricing.input} / 输出 $${pricing.output} 每百万 tokens` : "未配置")}`,
+    );
+    console.log(
+      `  ${chalk.gray("备用模型:")} ${chalk.cyan(
+        config.fallbackModels.length > 0
+          ? config.fallbackModels
+              .map(
+                (fallback) =>
+                  `${fallback.provider}/${fallback.model || "(默认模型)"}`,
+              )
+              .join(" → ")
+          : "未配置",
+      )}`,
+    );
 
     // 图像处理配置
     console.log(chalk.bold("\n图像处理:"));
@@ -214,6 +379,47 @@ export class UIUtils {
       `  ${chalk.gray("保持比例:")} ${chalk.cyan(config.imageProcessing.keepAspectRatio ? "是" : "否")}`,
     );
 
+    // 视频取帧配置
+    const { frameSampling } = config;
+    console.log(chalk.bold("\n视频取帧:"));
+    console.log(
+      `  ${chalk.gray("提取策略:")} ${chalk.cyan(config.frameExtractionStrategy)}`,
+    );
+    console.log(
+      `  ${chalk.gray("取帧数:")} ${chalk.cyan(frameSampling.frameCount)}`,
+    );
+    console.log(
+      `  ${chalk.gray("关键帧上限:")} ${chalk.cyan(frameSampling.maxKeyframes)}`,
+    );
+    console.log(
+      `  ${chalk.gray("起始偏移:")} ${chalk.cyan(
+        frameSampling.startOffset === undefined
+          ? "未设置"
+          : typeof frameSampling.startOffset === "number"
+            ? `${frameSampling.startOffset} 秒`
+            : frameSampling.startOffset,
+      )}`,
+    );
+    console.log(
+      `  ${chalk.gray("时长规则:")} ${chalk.cyan(
+        frameSampling.durationRules.length > 0
+          ? frameSampling.durationRules
+              .map((rule) =>
+                rule.maxDuration === undefined
+                  ? `更长 ${rule.frames} 帧`
+                  : `${rule.maxDuration} 秒内 ${rule.frames} 帧`,
+              )
+              .join("，")
+          : "未设置",
+      )}`,
+    );
+    console.log(
+      `  ${chalk.gray("画质检查:")} ${chalk.cyan(frameSampling.qualityCheck ? "是" : "否")}`,
+    );
+    console.log(
+      `  ${chalk.gray("拼接图:")} ${chalk.cyan(config.contactSheet ? "是" : "否")}`,
+    );
+
     // 批量处理配置
     console.log(chalk.bold("\n批量处理:"));
     console.log(
@@ -223,13 +429,22 @@ export class UIUtils {
       `  ${chalk.gray("最大 Token:")} ${chalk.cyan(config.batchProcessing.maxTokens)}`,
     );
     console.log(
-      `  ${chalk.gray("并行处理:")} ${chalk.cyan(config.batchProcessing.parallel ? "是" : "否")}`,
+      `  ${chalk.gray("并行处理:")} ${chalk.cyan(config.batchProcessing.parallel ? `是 (最多 ${config.batchProcessing.maxConcurrency} 个批次)` : "否")}`,
+    );
+    console.log(
+      `  ${chalk.gray("最大重试:")} ${chalk.cyan(config.retry.maxRetries)} 次`,
     );
 
     // Prompt 配置
     console.log(chalk.bold("\nPrompt 配置:"));
     console.log(
-      `  ${chalk.gray("文件名长度:")} ${chalk.cyan(config.promptConfig.filenameLength)} 字符`,
+      `  ${chalk.gray("语言:")} ${chalk.cyan(config.promptConfig.language)}`,
+    );
+    console.log(
+      `  ${chalk.gray("文件名长度:")} ${chalk.cyan(config.promptConfig.filenameLength)} ${config.promptConfig.language === "en" ? "个单词" : "字符"}`,
+    );
+    console.log(
+      `  ${chalk.gray("拼音转换:")} ${chalk.cyan(config.promptConfig.romanize ? "是" : "否")}`,
     );
     console.log(
       `  ${chalk.gray("自定义模板:")} ${chalk.cyan(config.promptConfig.customTemplate ? "已设置" : "未设置")}`,
@@ -241,6 +456,17 @@ export class UIUtils {
           : config.promptConfig.customTemplate;
       console.log(`  ${chalk.gray("模板预览:")} ${chalk.dim(preview)}`);
     }
+    console.log(
+      `  ${chalk.gray("文件信息:")} ${chalk.cyan(
+        config.promptContext.enabled
+          ? `发送 (${config.promptContext.fields.join(", ") || "无字段"})`
+          : "不发送",
+      )}`,
+    );
+    const profileNames = Object.keys(config.promptProfiles);
+    console.log(
+      `  ${chalk.gray("配置档:")} ${chalk.cyan(profileNames.length > 0 ? profileNames.join(", ") : "无")}`,
+    );
 
     // 文件名模板配置
     if (config.promptConfig.filenameTemplate) {
@@ -254,6 +480,16 @@ export class UIUtils {
       );
     }
 
+    // 文件名风格
+    const separator = FileUtils.getSeparator(config.filenameStyle);
+    console.log(chalk.bold("\n文件名风格:"));
+    console.log(
+      `  ${chalk.gray("风格:")} ${chalk.cyan(config.filenameStyle.case)}`,
+    );
+    console.log(
+      `  ${chalk.gray("分隔符:")} ${chalk.cyan(separator ? `"${separator}"` : "无")}`,
+    );
+
     // 其他设置
     console.log(chalk.bold("\n其他:"));
     console.log(
@@ -325,10 +561,15 @@ export class UIUtils {
     success: boolean;
     error?: string;
     model?: string;
+    details?: string[];
   }): void {
     console.log(chalk.bold("\n🧪 API 连接测试:"));
     console.log("─".repeat(40));
 
+    for (const detail of result.details || []) {
+      console.log(`${chalk.gray("•")} ${detail}`);
+    }
+
     if (result.success) {
       console.log(`${chalk.green("✓")} API 连接成功`);
       if (result.model) {
@@ -343,6 +584,101 @@ export class UIUtils {
     console.log();
   }
 
+  /**
+   * 打印可用模型列表
+   * @param provider - 提供商名称
+   * @param models - 模型名称列表
+   * @param currentModel - 当前使用的模型
+   */
+  static printModelList(
+    provider: string,
+    models: string[],
+    currentModel: string,
+  ): void {
+    console.log(chalk.bold(`\n📚 可用模型 (${provider}):`));
+    console.log("─".repeat(40));
+
+    if (models.length === 0) {
+      console.log(chalk.gray("  (无可用模型)"));
+    }
+
+    for (const model of models) {
+      const marker = model === currentModel ? chalk.green("●") : " ";
+      console.log(`${marker} ${chalk.cyan(model)}`);
+    }
+    console.log();
+  }
+
+  /**
+   * 打印结果缓存统计
+   * @param stats - 缓存统计信息
+   */
+  static printCacheStats(stats: ResultCacheStats): void {
+    console.log(chalk.bold("\n🗃️  结果缓存:"));
+    console.log("─".repeat(40));
+    console.log(`  ${chalk.gray("缓存文件:")} ${chalk.cyan(stats.path)}`);
+    console.log(`  ${chalk.gray("条目数:")} ${chalk.cyan(stats.entries)}`);
+    console.log(
+      `  ${chalk.gray("文件大小:")} ${chalk.cyan(FileUtils.formatFileSize(stats.size))}`,
+    );
+    if (stats.oldest !== undefined && stats.newest !== undefined) {
+      console.log(
+        `  ${chalk.gray("最早写入:")} ${chalk.cyan(new Date(stats.oldest).toLocaleString())}`,
+      );
+      console.log(
+        `  ${chalk.gray("最近写入:")} ${chalk.cyan(new Date(stats.newest).toLocaleString())}`,
+      );
+    }
+    console.log();
+  }
+
+  /**
+   * 打印提示词配置档
+   * @param profiles - 配置档（按名称索引）
+   */
+  static printPromptProfiles(profiles: Record<string, PromptProfile>): void {
+    console.log(chalk.bold("\n📝 提示词配置档:"));
+    console.log("─".repeat(40));
+
+    const entries = Object.entries(profiles);
+    if (entries.length === 0) {
+      console.log(
+        chalk.dim(
+          "  暂无配置档，使用 frame-sense config profile add <名称> 添加",
+        ),
+      );
+      console.log();
+      return;
+    }
+
+    for (const [name, profile] of entries) {
+      console.log(chalk.bold(`  ${name}`));
+      if (profile.language !== undefined) {
+        console.log(
+          `    ${chalk.gray("语言:")} ${chalk.cyan(profile.language)}`,
+        );
+      }
+      if (profile.filenameLength !== undefined) {
+        console.log(
+          `    ${chalk.gray("文件名长度:")} ${chalk.cyan(profile.filenameLength)}`,
+        );
+      }
+      if (profile.filenameTemplate !== undefined) {
+        console.log(
+          `    ${chalk.gray("文件名模板:")} ${chalk.cyan(profile.filenameTemplate)}`,
+        );
+      }
+      if (profile.customTemplate !== undefined) {
+        const preview =
+          profile.customTemplate.length > 60
+            ? `${profile.customTemplate.substring(0, 60)}...`
+            : profile.customTemplate;
+        console.log(`    ${chalk.gray("自定义模板:")} ${chalk.dim(preview)}`);
+      }
+    }
+    console.log();
+  }
+
   /**
    * 询问用户确认
    * @param message - 确认消息